@@ -0,0 +1,274 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import path from 'path';
+import { Action, IAgentRuntime, Memory } from '@elizaos/core';
+import { WolframService } from '../src/service';
+import { ReplayTransport } from '../src/transport';
+import { WolframQuotaTracker } from '../src/quota';
+import { WolframCircuitBreaker } from '../src/circuitBreaker';
+import { wolframQueryAction } from '../src/actions/query';
+import { wolframComputeAction } from '../src/actions/compute';
+import { wolframSolveAction } from '../src/actions/solve';
+import { wolframStepByStepAction } from '../src/actions/stepByStep';
+import { wolframGetFactsAction } from '../src/actions/getFacts';
+import { wolframAnalyzeDataAction } from '../src/actions/analyzeData';
+import { wolframConversationalAction } from '../src/actions/conversational';
+import { wolframQuickAnswerAction } from '../src/actions/quickAnswer';
+import { wolframPodStateAction } from '../src/actions/podState';
+import { wolframDisambiguateAction } from '../src/actions/disambiguate';
+import { wolframAssumptionPreferencesAction } from '../src/actions/assumptionPreferences';
+import { wolframResetConversationAction } from '../src/actions/resetConversation';
+
+const FIXTURE_PATH = path.join(__dirname, 'fixtures', 'wolfram-actions.json');
+
+describe('Wolfram actions (replayed fixtures)', () => {
+  let service: WolframService;
+  let runtime: IAgentRuntime;
+  let extracted: string;
+
+  const run = async (action: Action, text: string) => {
+    const callback = vi.fn();
+    const message = {
+      userId: 'user-123',
+      roomId: 'room-1',
+      content: { text },
+    } as unknown as Memory;
+    const result = await action.handler(
+      runtime,
+      message,
+      undefined,
+      {},
+      callback,
+    );
+    return { result: result as any, callback };
+  };
+
+  beforeEach(async () => {
+    extracted = '';
+    runtime = {
+      getSetting: vi.fn((key: string) =>
+        key === 'WOLFRAM_APP_ID' ? 'test-app-id' : undefined,
+      ),
+      getService: vi.fn(() => service),
+      composeState: vi.fn(async () => ({ values: {}, data: {}, text: '' })),
+      useModel: vi.fn(async () => extracted),
+      getCache: vi.fn(),
+      setCache: vi.fn(async () => true),
+      deleteCache: vi.fn(async () => true),
+    } as unknown as IAgentRuntime;
+
+    service = new WolframService(
+      runtime,
+      await ReplayTransport.fromFile(FIXTURE_PATH),
+    );
+    await service.initialize();
+  });
+
+  it('WOLFRAM_QUERY formats the primary pods', async () => {
+    extracted = 'population of Tokyo';
+    const { result, callback } = await run(wolframQueryAction, 'How many people live in Tokyo?');
+
+    expect(result.success).toBe(true);
+    expect(result.text).toContain('37.1 million people');
+    expect(result.text).toContain('an administrative division');
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  it('WOLFRAM_COMPUTE returns the short answer', async () => {
+    extracted = 'sqrt(144)';
+    const { result } = await run(wolframComputeAction, 'What is the square root of 144?');
+
+    expect(result.success).toBe(true);
+    expect(result.data.result).toBe('12');
+  });
+
+  it('WOLFRAM_SOLVE extracts the solution pod', async () => {
+    extracted = 'x^2 - 4x + 3 = 0';
+    const { result } = await run(wolframSolveAction, 'Solve x^2 - 4x + 3 = 0');
+
+    expect(result.success).toBe(true);
+    expect(result.data.solution).toBe('x = 1');
+  });
+
+  it('WOLFRAM_STEP_BY_STEP collects the intermediate steps', async () => {
+    extracted = 'derivative of x^3';
+    const { result } = await run(wolframStepByStepAction, 'Differentiate x^3 step by step');
+
+    expect(result.success).toBe(true);
+    expect(result.data.steps.join('\n')).toContain('power rule');
+  });
+
+  it('WOLFRAM_GET_FACTS lists facts from data pods', async () => {
+    extracted = 'Jupiter';
+    const { result } = await run(wolframGetFactsAction, 'Tell me about Jupiter');
+
+    expect(result.success).toBe(true);
+    expect(result.data.facts.some((f: string) => f.includes('71492 km'))).toBe(true);
+  });
+
+  it('WOLFRAM_ANALYZE_DATA groups results by pod', async () => {
+    extracted = '12, 15, 18, 22, 25';
+    const { result } = await run(wolframAnalyzeDataAction, 'Analyze 12, 15, 18, 22, 25');
+
+    expect(result.success).toBe(true);
+    expect(result.data.analysis.results.Median).toEqual(['18']);
+  });
+
+  it('WOLFRAM_CONVERSATIONAL keeps the conversation ID', async () => {
+    const { result } = await run(wolframConversationalAction, 'Tell me about prime numbers');
+
+    expect(result.success).toBe(true);
+    expect(result.data.conversationID).toBe('MSP7721b2e0a3');
+    expect(result.text).toContain('First ten primes');
+  });
+
+  it('WOLFRAM_RESET_CONVERSATION starts the thread over', async () => {
+    await run(wolframConversationalAction, 'Tell me about prime numbers');
+
+    const { result } = await run(wolframResetConversationAction, 'Let us start over');
+    expect(result.success).toBe(true);
+    expect(result.data.cleared).toBe(true);
+
+    const again = await run(wolframResetConversationAction, 'Let us start over');
+    expect(again.result.data.cleared).toBe(false);
+    expect(again.result.text).toContain('no Wolfram Alpha conversation');
+  });
+
+  it('WOLFRAM_QUICK_ANSWER returns the short answer text', async () => {
+    extracted = 'speed of light';
+    const { result } = await run(wolframQuickAnswerAction, 'How fast is light?');
+
+    expect(result.success).toBe(true);
+    expect(result.text).toBe('about 299792 kilometers per second');
+  });
+
+  it('WOLFRAM_QUICK_ANSWER reports input Wolfram did not understand', async () => {
+    extracted = 'what is the meaning of blorfle';
+    const { result } = await run(wolframQuickAnswerAction, 'What does blorfle mean?');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('INPUT_NOT_UNDERSTOOD');
+    expect(result.text).toContain("couldn't interpret");
+    expect(result.text).toContain('"meaning of blob"');
+    expect(result.data.suggestions.relatedExamples).toEqual(['meaning of word']);
+  });
+
+  it('WOLFRAM_COMPUTE offers suggestions after a single query', async () => {
+    extracted = 'what is the meaning of blorfle';
+    const { result } = await run(wolframComputeAction, 'Compute blorfle');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('INPUT_NOT_UNDERSTOOD');
+    expect(result.data.suggestions.didYouMean).toEqual(['meaning of blob', 'blorf']);
+  });
+
+  it('WOLFRAM_POD_STATE shows more digits of the last result', async () => {
+    const message = { roomId: 'room-1', content: { text: 'Show more digits' } } as unknown as Memory;
+    expect(await wolframPodStateAction.validate(runtime, message)).toBe(false);
+
+    extracted = 'pi';
+    await run(wolframQueryAction, 'What is pi?');
+    expect(await wolframPodStateAction.validate(runtime, message)).toBe(true);
+
+    extracted = 'More digits';
+    const { result } = await run(wolframPodStateAction, 'Show more digits');
+
+    expect(result.success).toBe(true);
+    expect(result.data.podState.input).toBe('DecimalApproximation__More digits');
+    expect(result.text).toContain('**Decimal approximation**');
+    expect(result.text).toContain('3.14159265358979323846264338327950288419716939937510582097494459230781640628');
+  });
+
+  it('WOLFRAM_POD_STATE keeps earlier pod states on a second follow-up', async () => {
+    extracted = 'pi';
+    await run(wolframQueryAction, 'What is pi?');
+
+    extracted = 'More digits';
+    await run(wolframPodStateAction, 'Show more digits');
+    const { result } = await run(wolframPodStateAction, 'Even more digits please');
+
+    expect(result.success).toBe(true);
+    expect(result.text).toContain('442881097566593344612847564823378678316527120190914564856692346034861045432664821339360726024914127');
+  });
+
+  it('WOLFRAM_POD_STATE lists the options when the request matches none', async () => {
+    extracted = 'pi';
+    await run(wolframQueryAction, 'What is pi?');
+
+    extracted = 'NONE';
+    const { result } = await run(wolframPodStateAction, 'Show it as a fraction');
+
+    expect(result.success).toBe(false);
+    expect(result.text).toContain('More digits, Fewer digits');
+  });
+
+  it('WOLFRAM_DISAMBIGUATE re-runs the last query with the chosen interpretation', async () => {
+    extracted = 'population of Tokyo';
+    await run(wolframQueryAction, 'How many people live in Tokyo?');
+
+    extracted = 'an administrative division';
+    const { result } = await run(wolframDisambiguateAction, 'I meant the administrative division');
+
+    expect(result.success).toBe(true);
+    expect(result.data.assumption.input).toBe('*C.Tokyo-_*AdministrativeDivision-');
+    expect(result.text).toContain('14.1 million people');
+    expect(service.getLastResult('room-1')?.options.assumption).toBe(
+      '*C.Tokyo-_*AdministrativeDivision-',
+    );
+  });
+
+  it('reuses a remembered interpretation in later queries', async () => {
+    extracted = 'population of Tokyo';
+    await run(wolframQueryAction, 'How many people live in Tokyo?');
+    extracted = 'an administrative division';
+    await run(wolframDisambiguateAction, 'I meant the administrative division');
+
+    extracted = 'population of Tokyo';
+    const { result } = await run(wolframQueryAction, 'And how many live there now?');
+
+    expect(result.text).toContain('14.1 million people');
+
+    extracted = 'RESET Tokyo';
+    const reset = await run(wolframAssumptionPreferencesAction, 'Forget what I said about Tokyo');
+    expect(reset.result.data.removed).toBe(1);
+
+    extracted = 'population of Tokyo';
+    const again = await run(wolframQueryAction, 'How many people live in Tokyo?');
+    expect(again.result.text).toContain('37.1 million people');
+  });
+
+  it('WOLFRAM_DISAMBIGUATE asks again when the correction matches nothing', async () => {
+    extracted = 'population of Tokyo';
+    await run(wolframQueryAction, 'How many people live in Tokyo?');
+
+    extracted = 'NONE';
+    const { result } = await run(wolframDisambiguateAction, 'No, the other one');
+
+    expect(result.success).toBe(false);
+    expect(result.text).toContain('can also mean: an administrative division');
+  });
+
+  it('tells the user politely when the monthly quota is spent', async () => {
+    service.client.quota = new WolframQuotaTracker(runtime, { monthlyLimit: 1 });
+    await service.client.quota.acquire('test-app-id');
+    extracted = 'sqrt(144)';
+
+    const { result, callback } = await run(wolframComputeAction, 'What is the square root of 144?');
+
+    expect(result.success).toBe(false);
+    expect(result.text).toContain('usage limit for this month');
+    expect(result.error).toBe('QUOTA_EXCEEDED');
+    expect(callback).toHaveBeenLastCalledWith(expect.objectContaining({ error: true }));
+  });
+
+  it('reports Wolfram as temporarily unavailable when the circuit is open', async () => {
+    const breaker = new WolframCircuitBreaker('/query', { failureThreshold: 1 });
+    breaker.recordFailure();
+    service.client.circuitBreakers.set('/query', breaker);
+    extracted = 'population of Tokyo';
+
+    const { result } = await run(wolframQueryAction, 'How many people live in Tokyo?');
+
+    expect(result.success).toBe(false);
+    expect(result.text).toContain('temporarily unavailable');
+  });
+});
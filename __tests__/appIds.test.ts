@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import { WolframAppIdPool } from '../src/appIds';
+import { WolframQuotaTracker } from '../src/quota';
+import { WolframInvalidAppIdError } from '../src/types';
+
+describe('WolframAppIdPool', () => {
+  let now: number;
+  let quota: WolframQuotaTracker;
+
+  beforeEach(() => {
+    now = 1000;
+    const runtime = {
+      getCache: vi.fn(),
+      setCache: vi.fn(async () => true),
+    } as unknown as IAgentRuntime;
+    quota = new WolframQuotaTracker(runtime, { requestsPerSecond: 0 });
+  });
+
+  const rejected = new WolframInvalidAppIdError('Invalid appid');
+
+  it('should ignore duplicate and empty App IDs', () => {
+    const pool = new WolframAppIdPool(['app-a', '', 'app-b', 'app-a']);
+    expect(pool.appIds).toEqual(['app-a', 'app-b']);
+  });
+
+  it('should skip App IDs in their cooldown until it ends', async () => {
+    const pool = new WolframAppIdPool(['app-a', 'app-b', 'app-c'], 'round-robin', 500, () => now);
+    pool.recordFailure('app-b', rejected);
+
+    const picks = [];
+    for (let i = 0; i < 3; i++) picks.push(await pool.select(new Set(), quota));
+    expect(picks).toEqual(['app-a', 'app-c', 'app-a']);
+
+    now = 1600;
+    expect(await pool.select(new Set(), quota)).toBe('app-b');
+  });
+
+  it('should fall back to the App ID whose cooldown ends first', async () => {
+    const pool = new WolframAppIdPool(['app-a', 'app-b'], 'round-robin', 500, () => now);
+    pool.recordFailure('app-a', rejected);
+    now = 1100;
+    pool.recordFailure('app-b', rejected);
+
+    expect(await pool.select(new Set(), quota)).toBe('app-a');
+    expect(await pool.select(new Set(['app-a']), quota)).toBe('app-b');
+    expect(await pool.select(new Set(['app-a', 'app-b']), quota)).toBeUndefined();
+  });
+
+  it('should prefer the App ID with the most quota left', async () => {
+    quota = new WolframQuotaTracker(
+      { getCache: vi.fn(), setCache: vi.fn(async () => true) } as unknown as IAgentRuntime,
+      { requestsPerSecond: 0, monthlyLimit: 10 },
+    );
+    const pool = new WolframAppIdPool(['app-a', 'app-b'], 'quota');
+    await quota.acquire('app-a');
+
+    expect(await pool.select(new Set(), quota)).toBe('app-b');
+    expect(await pool.select(new Set(), quota)).toBe('app-b');
+  });
+
+  it('should take turns under the quota strategy when no App ID has a limit', async () => {
+    const pool = new WolframAppIdPool(['app-a', 'app-b', 'app-c'], 'quota');
+
+    const picks = [];
+    for (let i = 0; i < 4; i++) picks.push(await pool.select(new Set(), quota));
+    expect(picks).toEqual(['app-a', 'app-b', 'app-c', 'app-a']);
+  });
+
+  it('should report usage per App ID without exposing it', async () => {
+    const pool = new WolframAppIdPool(['app-a', 'app-b'], 'round-robin', 500, () => now);
+    await quota.acquire(await pool.select(new Set(), quota) as string);
+    pool.recordFailure('app-b', rejected);
+
+    const stats = pool.getStats(quota.getUsage());
+    expect(JSON.stringify(stats)).not.toContain('app-');
+    expect(stats[0]).toMatchObject({ requests: 1, failures: 0, quota: { used: 1 } });
+    expect(stats[1]).toMatchObject({ requests: 0, failures: 1, coolingDownUntil: 1500 });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { findAssumption, listAssumptions } from '../src/assumptions';
+import { WolframAlphaQueryResult } from '../src/types';
+
+const mercury = {
+  success: true,
+  numpods: 0,
+  pods: [],
+  assumptions: [
+    {
+      type: 'Clash',
+      word: 'Mercury',
+      template: 'Assuming "${word}" is ${desc1}. Use as ${desc2} instead',
+      count: 3,
+      values: [
+        { name: 'Planet', desc: 'a planet', input: '*C.Mercury-_*Planet-' },
+        { name: 'Element', desc: 'a chemical element', input: '*C.Mercury-_*Element-' },
+        { name: 'MythologicalFigure', desc: 'a mythological figure', input: '*C.Mercury-_*MythologicalFigure-' },
+      ],
+    },
+  ],
+} as unknown as WolframAlphaQueryResult;
+
+describe('listAssumptions', () => {
+  it('should list every value with its input token', () => {
+    const options = listAssumptions(mercury);
+
+    expect(options).toHaveLength(3);
+    expect(options[1]).toEqual({
+      type: 'Clash',
+      word: 'Mercury',
+      name: 'Element',
+      desc: 'a chemical element',
+      input: '*C.Mercury-_*Element-',
+      current: false,
+    });
+    expect(options.filter((option) => option.current).map((option) => option.name)).toEqual(['Planet']);
+  });
+
+  it('should accept a single assumption object', () => {
+    const single = { ...mercury, assumptions: mercury.assumptions![0] } as unknown as WolframAlphaQueryResult;
+
+    expect(listAssumptions(single)).toHaveLength(3);
+  });
+
+  it('should return nothing for results without assumptions', () => {
+    expect(listAssumptions({ ...mercury, assumptions: undefined })).toEqual([]);
+  });
+});
+
+describe('findAssumption', () => {
+  const options = listAssumptions(mercury);
+
+  it('should match a correction to an alternative interpretation', () => {
+    expect(findAssumption(options, 'I meant the chemical element')?.name).toBe('Element');
+    expect(findAssumption(options, 'a mythological figure')?.name).toBe('MythologicalFigure');
+  });
+
+  it('should return undefined when nothing matches', () => {
+    expect(findAssumption(options, 'the car brand')).toBeUndefined();
+  });
+});
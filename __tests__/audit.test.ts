@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { IAgentRuntime } from '@elizaos/core';
+import {
+  AUDIT_REDACTED,
+  WolframAuditLog,
+  readAuditLog,
+  replayAuditLog,
+} from '../src/audit';
+import { WolframService } from '../src/service';
+import { WolframAuditEntry } from '../src/types';
+
+describe('Wolfram audit log', () => {
+  let dir: string;
+  let logPath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wolfram-audit-'));
+    logPath = path.join(dir, 'audit.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const entry = (input: string): Omit<WolframAuditEntry, 'sessionId'> => ({
+    timestamp: new Date(0).toISOString(),
+    input,
+    request: { url: '/short', params: { input } },
+    status: 200,
+    latencyMs: 1,
+    response: { data: 'x'.repeat(60), encoding: 'text' },
+  });
+
+  it('should rotate the file and keep at most maxFiles old ones', async () => {
+    const log = new WolframAuditLog(logPath, 400, 2);
+    for (let i = 0; i < 12; i++) log.record(entry(`q${i}`));
+    await log.flush();
+
+    const files = (await fs.readdir(dir)).sort();
+    expect(files).toEqual(['audit.jsonl', 'audit.jsonl.1', 'audit.jsonl.2']);
+    for (const file of files) {
+      expect((await fs.stat(path.join(dir, file))).size).toBeLessThanOrEqual(400);
+    }
+
+    const entries = await readAuditLog(logPath);
+    const inputs = entries.map((e) => e.input);
+    expect(inputs.length).toBeLessThan(12);
+    expect(inputs).toEqual(inputs.map((_, i) => `q${12 - inputs.length + i}`));
+    expect(entries.every((e) => e.sessionId === log.sessionId)).toBe(true);
+  });
+
+  it('should skip unreadable lines and filter by session', async () => {
+    const first = new WolframAuditLog(logPath);
+    first.record(entry('a'));
+    await first.flush();
+    await fs.appendFile(logPath, '{"cut off\n');
+    const second = new WolframAuditLog(logPath);
+    second.record(entry('b'));
+    await second.flush();
+
+    expect((await readAuditLog(logPath)).map((e) => e.input)).toEqual(['a', 'b']);
+    expect(
+      (await readAuditLog(logPath, { sessionId: second.sessionId })).map((e) => e.input),
+    ).toEqual(['b']);
+  });
+
+  describe('WolframService', () => {
+    let transport: { get: ReturnType<typeof vi.fn> };
+    let service: WolframService;
+
+    beforeEach(async () => {
+      transport = {
+        get: vi.fn(async (url: string, request: any) => {
+          if (request.params.input === 'gibberish') {
+            throw { response: { status: 501, data: 'No short answer available' }, message: 'Not Implemented' };
+          }
+          return { status: 200, data: url === '/short' ? '2' : { queryresult: { success: true, pods: [] } } };
+        }),
+      };
+      const runtime = {
+        getSetting: (key: string) =>
+          ({ WOLFRAM_APP_ID: 'secret-app-id', WOLFRAM_AUDIT_LOG_PATH: logPath })[key],
+        getCache: vi.fn(),
+        setCache: vi.fn().mockResolvedValue(true),
+        deleteCache: vi.fn().mockResolvedValue(true),
+      } as unknown as IAgentRuntime;
+      service = new WolframService(runtime, transport);
+      await service.initialize();
+    });
+
+    it('should record the action, input, request and response of each exchange', async () => {
+      await service.solveMath('x + 1 = 3', { action: 'WOLFRAM_SOLVE' });
+      await expect(service.getShortAnswer('gibberish')).resolves.toMatchObject({
+        notUnderstood: true,
+      });
+      await service.stop();
+
+      const entries = await readAuditLog(logPath);
+      const solve = entries.find((e) => e.method === 'solveMath')!;
+      expect(solve).toMatchObject({
+        sessionId: service.auditLog!.sessionId,
+        action: 'WOLFRAM_SOLVE',
+        input: 'x + 1 = 3',
+        request: { url: '/query', params: { input: 'solve x + 1 = 3', appid: AUDIT_REDACTED } },
+        status: 200,
+        response: { encoding: 'json', data: { queryresult: { success: true } } },
+      });
+      expect(solve.latencyMs).toBeGreaterThanOrEqual(0);
+      expect(new Date(solve.timestamp).getTime()).not.toBeNaN();
+
+      const failed = entries.find((e) => e.method === 'getShortAnswer')!;
+      expect(failed).toMatchObject({
+        status: 501,
+        error: 'Not Implemented',
+        response: { data: 'No short answer available', encoding: 'text' },
+      });
+      expect(failed.action).toBeUndefined();
+      expect(await fs.readFile(logPath, 'utf8')).not.toContain('secret-app-id');
+    });
+
+    it('should replay a logged session and flag changed answers', async () => {
+      await service.getShortAnswer('1+1');
+      await service.stop();
+      const entries = (await readAuditLog(logPath)).filter((e) => e.method);
+
+      const replay = { get: vi.fn().mockResolvedValue({ status: 200, data: '2' }) };
+      const [same] = await replayAuditLog(entries, replay, { appId: 'other-app-id' });
+      expect(replay.get).toHaveBeenCalledWith('/short', {
+        params: { input: '1+1', appid: 'other-app-id', units: 'metric' },
+        headers: undefined,
+        responseType: 'text',
+        signal: undefined,
+      });
+      expect(same).toMatchObject({ status: 200, changed: false });
+
+      replay.get.mockRejectedValue({ response: { status: 501, data: '' }, message: 'Not Implemented' });
+      const [changed] = await replayAuditLog(entries, replay);
+      expect(replay.get.mock.calls[1][1].params).not.toHaveProperty('appid');
+      expect(changed).toMatchObject({ status: 501, error: 'Not Implemented', changed: true });
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { IAgentRuntime } from '@elizaos/core';
+import {
+  FileCacheStore,
+  MemoryCacheStore,
+  RuntimeCacheStore,
+  createCacheStore,
+} from '../src/cache';
+import { WolframConfig } from '../src/environment';
+
+const entry = (result: any, ageMs = 0, ttl = 3600000) => ({
+  query: 'key',
+  result,
+  timestamp: Date.now() - ageMs,
+  ttl,
+});
+
+describe('Wolfram cache stores', () => {
+  describe('MemoryCacheStore', () => {
+    it('should evict the least recently used entry, not the oldest', () => {
+      const store = new MemoryCacheStore({ maxEntries: 2 });
+      store.set('a', entry('a'));
+      store.set('b', entry('b'));
+      store.get('a');
+      store.set('c', entry('c'));
+
+      expect([...store.keys()]).toEqual(['a', 'c']);
+      expect(store.evictions).toBe(1);
+    });
+
+    it('should enforce the byte budget alongside the entry cap', () => {
+      const store = new MemoryCacheStore({ maxEntries: 100, maxBytes: 2048 });
+      store.set('short:2+2', entry('4'));
+      store.set('simple:plot', entry(`data:image/gif;base64,${'A'.repeat(1500)}`));
+      store.set('simple:other', entry(`data:image/gif;base64,${'B'.repeat(1500)}`));
+
+      expect(store.has('simple:plot')).toBe(false);
+      expect(store.has('simple:other')).toBe(true);
+      expect(store.bytes).toBeLessThanOrEqual(2048);
+    });
+
+    it('should not keep an entry larger than the whole budget', () => {
+      const store = new MemoryCacheStore({ maxBytes: 1024 });
+      store.set('a', entry('a'.repeat(100)));
+      store.set('b', entry('b'.repeat(100)));
+      store.set('huge', entry('x'.repeat(4096)));
+
+      expect(store.has('huge')).toBe(false);
+      expect([...store.keys()]).toEqual(['a', 'b']);
+      expect(store.bytes).toBe(200);
+      expect(store.evictions).toBe(0);
+    });
+
+    it('should account for replaced entries', () => {
+      const store = new MemoryCacheStore();
+      store.set('k', entry('x'.repeat(100)));
+      store.set('k', entry('y'.repeat(10)));
+
+      expect(store.bytes).toBe(10);
+    });
+  });
+
+  describe('FileCacheStore', () => {
+    let dir: string;
+    let cachePath: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wolfram-cache-'));
+      cachePath = path.join(dir, 'nested', 'cache.json');
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should restore entries across instances', async () => {
+      const first = new FileCacheStore(cachePath);
+      first.set('short:speed of light', entry({ answer: '299792 km/s', success: true }));
+      await first.flush();
+
+      const second = new FileCacheStore(cachePath);
+      await second.load();
+
+      expect(second.get('short:speed of light')?.result.answer).toBe('299792 km/s');
+    });
+
+    it('should keep timestamps so entries still expire after a restart', async () => {
+      const first = new FileCacheStore(cachePath);
+      first.set('fresh', entry('fresh', 1000));
+      first.set('stale', entry('stale', 7200000));
+      await first.flush();
+
+      const second = new FileCacheStore(cachePath);
+      await second.load();
+
+      expect(second.has('fresh')).toBe(true);
+      expect(second.has('stale')).toBe(false);
+      expect(second.get('fresh')?.timestamp).toBe(first.get('fresh')?.timestamp);
+    });
+
+    it('should start empty when the file does not exist', async () => {
+      const store = new FileCacheStore(cachePath);
+      await store.load();
+
+      expect(store.size).toBe(0);
+    });
+  });
+
+  describe('RuntimeCacheStore', () => {
+    let storage: Map<string, any>;
+    let runtime: IAgentRuntime;
+
+    beforeEach(() => {
+      storage = new Map();
+      runtime = {
+        getCache: async (key: string) => storage.get(key),
+        setCache: async (key: string, value: any) => {
+          storage.set(key, value);
+          return true;
+        },
+        deleteCache: async (key: string) => storage.delete(key),
+      } as unknown as IAgentRuntime;
+    });
+
+    it('should restore entries through the runtime cache', async () => {
+      const first = new RuntimeCacheStore(runtime);
+      first.set('compute:6*7', entry('42'));
+      await first.flush();
+
+      const second = new RuntimeCacheStore(runtime);
+      await second.load();
+
+      expect(second.get('compute:6*7')?.result).toBe('42');
+    });
+
+    it('should remove persisted entries on delete and clear', async () => {
+      const store = new RuntimeCacheStore(runtime);
+      store.set('a', entry('a'));
+      store.set('b', entry('b'));
+      store.delete('a');
+      store.clear();
+      await store.flush();
+
+      expect(storage.get('wolfram:cache:index')).toEqual([]);
+      expect([...storage.keys()]).toEqual(['wolfram:cache:index']);
+    });
+
+    it('should keep every key when index writes finish out of order', async () => {
+      const setCache = runtime.setCache;
+      let calls = 0;
+      // The first index write is slower than the ones after it
+      runtime.setCache = async (key: string, value: any) => {
+        if (key === 'wolfram:cache:index' && calls++ === 0) {
+          await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        return setCache(key, value);
+      };
+      const store = new RuntimeCacheStore(runtime);
+      store.set('a', entry('a'));
+      store.set('b', entry('b'));
+      await store.flush();
+
+      expect(storage.get('wolfram:cache:index')).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('createCacheStore', () => {
+    it('should default to the in-memory store', () => {
+      const store = createCacheStore({} as WolframConfig, {} as IAgentRuntime);
+
+      expect(store).toBeInstanceOf(MemoryCacheStore);
+      expect(store.backend).toBe('memory');
+    });
+  });
+});
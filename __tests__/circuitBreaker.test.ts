@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WolframCircuitBreaker, isOutageError } from '../src/circuitBreaker';
+import { WolframCircuitOpenError, WolframInvalidAppIdError } from '../src/types';
+
+describe('WolframCircuitBreaker', () => {
+  let now: number;
+  let breaker: WolframCircuitBreaker;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    breaker = new WolframCircuitBreaker('/query', { failureThreshold: 3, resetTimeoutMs: 10000 }, () => now);
+  });
+
+  it('opens after consecutive failures and rejects immediately', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(() => breaker.beforeRequest()).not.toThrow();
+    breaker.recordFailure();
+
+    expect(() => breaker.beforeRequest()).toThrow(WolframCircuitOpenError);
+    expect(breaker.getStats()).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 3,
+      rejected: 1,
+      retryAt: now + 10000,
+    });
+  });
+
+  it('resets the failure count on success', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.getStats()).toMatchObject({ state: 'closed', consecutiveFailures: 1 });
+  });
+
+  it('lets a single probe through once the reset timeout passes', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    now += 10000;
+
+    expect(() => breaker.beforeRequest()).not.toThrow();
+    expect(breaker.getStats().state).toBe('half-open');
+    expect(() => breaker.beforeRequest()).toThrow(WolframCircuitOpenError);
+
+    breaker.recordSuccess();
+    expect(breaker.getStats().state).toBe('closed');
+  });
+
+  it('reopens when the probe fails', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    now += 10000;
+    breaker.beforeRequest();
+    breaker.recordFailure();
+
+    expect(breaker.getStats()).toMatchObject({ state: 'open', openedAt: now });
+  });
+
+  it('only treats network errors and 5xx other than 501 as outages', () => {
+    expect(isOutageError(new Error('timeout of 10000ms exceeded'))).toBe(true);
+    expect(isOutageError({ response: { status: 503 } })).toBe(true);
+    expect(isOutageError({ response: { status: 501 } })).toBe(false);
+    expect(isOutageError({ response: { status: 429 } })).toBe(false);
+    expect(isOutageError({ response: { status: 403 } })).toBe(false);
+    expect(isOutageError({ code: 'ECONNREFUSED', message: 'connect ECONNREFUSED' })).toBe(true);
+    expect(isOutageError(new TypeError('Cannot read properties of undefined'))).toBe(false);
+    expect(isOutageError(new WolframInvalidAppIdError('Wolfram query error 1: Invalid appid'))).toBe(false);
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { WolframClient, MemoryStateStore } from '../src/client';
+import { WolframAbortedError, WolframInputNotUnderstoodError } from '../src/types';
+
+describe('WolframClient', () => {
+  let transport: { get: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    transport = {
+      get: vi.fn().mockResolvedValue({ status: 200, data: '4' }),
+    };
+  });
+
+  it('should run from plain options without an agent runtime', async () => {
+    const client = new WolframClient(
+      { appId: 'script-app-id', units: 'imperial' },
+      { transport },
+    );
+    await client.initialize();
+
+    const result = await client.getShortAnswer('2+2');
+
+    expect(result).toEqual({ answer: '4', success: true });
+    expect(transport.get).toHaveBeenLastCalledWith('/short', {
+      params: {
+        appid: 'script-app-id',
+        input: '2+2',
+        units: 'imperial',
+        location: undefined,
+      },
+      responseType: 'text',
+      signal: expect.any(AbortSignal),
+    });
+    expect(client.getStats().config.units).toBe('imperial');
+  });
+
+  it('should cache answers unless caching is turned off', async () => {
+    const cached = new WolframClient({ appId: 'app' }, { transport });
+    await cached.getSpokenAnswer('distance to Mars');
+    await cached.getSpokenAnswer('distance to Mars');
+    expect(transport.get).toHaveBeenCalledTimes(1);
+
+    transport.get.mockClear();
+    const uncached = new WolframClient({ appId: 'app', cache: false }, { transport });
+    await uncached.getSpokenAnswer('distance to Mars');
+    await uncached.getSpokenAnswer('distance to Mars');
+    expect(transport.get).toHaveBeenCalledTimes(2);
+    expect(uncached.getStats().cacheSize).toBe(0);
+  });
+
+  it('should keep conversations in the store it is given', async () => {
+    const store = new MemoryStateStore();
+    transport.get.mockResolvedValue({
+      status: 200,
+      data: { result: 'Hello', conversationID: 'conv-1', host: 'www5b.wolframalpha.com', s: '1' },
+    });
+    const client = new WolframClient({ appId: 'app' }, { transport, store });
+
+    await client.conversationalQuery('hello', 'script');
+    await client.close();
+
+    expect(await store.getCache('wolfram:conversation:script')).toMatchObject({
+      conversationID: 'conv-1',
+    });
+  });
+
+  describe('batch', () => {
+    it('should return results in order, with errors per item', async () => {
+      transport.get.mockImplementation(async (url: string, request: any) => {
+        if (request.params.input === 'gibberish') {
+          throw { response: { status: 501 }, message: 'Not Implemented' };
+        }
+        return { status: 200, data: `${url} ${request.params.input}` };
+      });
+      const client = new WolframClient({ appId: 'app' }, { transport });
+
+      const results = await client.batch([
+        { input: '1+1', method: 'short' },
+        { input: 'gibberish', method: 'result' },
+        { input: 'pi', method: 'llm', maxChars: 100 },
+      ]);
+
+      expect(results.map((entry) => entry.index)).toEqual([0, 1, 2]);
+      expect(results[0]).toMatchObject({
+        success: true,
+        result: { answer: '/short 1+1' },
+      });
+      expect(results[1]).toMatchObject({ success: true, result: { notUnderstood: true } });
+      expect(results[2]).toMatchObject({ success: true, method: 'llm' });
+
+      transport.get.mockRejectedValue({ response: { status: 501 } });
+      const [failed] = await client.batch([{ input: 'gibberish', method: 'llm' }]);
+      expect(failed.success).toBe(false);
+      expect(!failed.success && failed.error).toBeInstanceOf(WolframInputNotUnderstoodError);
+    });
+
+    it('should fetch duplicate items once', async () => {
+      const client = new WolframClient({ appId: 'app' }, { transport });
+
+      const results = await client.batch(
+        Array.from({ length: 5 }, () => ({ input: '2+2', method: 'short' as const })),
+      );
+
+      expect(transport.get).toHaveBeenCalledTimes(1);
+      expect(results.every((entry) => entry.success)).toBe(true);
+    });
+
+    it('should keep at most `concurrency` items in flight', async () => {
+      let active = 0;
+      let peak = 0;
+      transport.get.mockImplementation(async (_url: string, request: any) => {
+        active += 1;
+        peak = Math.max(peak, active);
+        await new Promise((r) => setTimeout(r, 5));
+        active -= 1;
+        return { status: 200, data: request.params.input };
+      });
+      const client = new WolframClient(
+        { appId: 'app', batchConcurrency: 3 },
+        { transport },
+      );
+
+      const inputs = Array.from({ length: 10 }, (_, i) => `${i}+1`);
+      const results = await client.batch(inputs.map((input) => ({ input, method: 'short' })));
+      expect(peak).toBe(3);
+      expect(results.map((entry) => entry.success && entry.result.answer)).toEqual(inputs);
+
+      peak = 0;
+      await client.batch([{ input: 'a', method: 'short' }, { input: 'b', method: 'short' }], {
+        concurrency: 1,
+      });
+      expect(peak).toBe(1);
+    });
+  });
+
+  describe('cancellation', () => {
+    // Never answers; rejects like axios once the request's signal fires
+    const hanging = (_url: string, request: any) =>
+      new Promise((_, reject) => {
+        request.signal?.addEventListener('abort', () =>
+          reject(Object.assign(new Error('canceled'), { code: 'ERR_CANCELED' })),
+        );
+      });
+
+    it('should abort a request in flight without caching anything', async () => {
+      transport.get.mockImplementationOnce(hanging);
+      const client = new WolframClient({ appId: 'app' }, { transport });
+      const controller = new AbortController();
+
+      const pending = client.getShortAnswer('2+2', { signal: controller.signal });
+      await vi.waitFor(() => expect(transport.get).toHaveBeenCalledTimes(1));
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(WolframAbortedError);
+      expect(transport.get.mock.calls[0][1].signal.aborted).toBe(true);
+      expect(client.getStats().cacheSize).toBe(0);
+      expect(client.getStats().circuitBreakers['/short'].consecutiveFailures).toBe(0);
+
+      await expect(client.getShortAnswer('2+2')).resolves.toMatchObject({ answer: '4' });
+      expect(transport.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not send anything for a signal that already fired', async () => {
+      const client = new WolframClient({ appId: 'app' }, { transport });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.solveMath('x^2 = 4', { signal: controller.signal }),
+      ).rejects.toMatchObject({ code: 'ABORTED' });
+      expect(transport.get).not.toHaveBeenCalled();
+    });
+
+    it('should stop waiting to retry once aborted', async () => {
+      transport.get.mockRejectedValue({
+        response: { status: 503, headers: { 'retry-after': '5' } },
+      });
+      const client = new WolframClient({ appId: 'app' }, { transport });
+      const controller = new AbortController();
+
+      const pending = client.getSpokenAnswer('weather', { signal: controller.signal });
+      await vi.waitFor(() => expect(transport.get).toHaveBeenCalledTimes(1));
+      const startedAt = Date.now();
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(WolframAbortedError);
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      expect(transport.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not fail other callers sharing the request', async () => {
+      let answer: (value: unknown) => void = () => {};
+      transport.get.mockImplementationOnce(
+        () => new Promise((resolve) => (answer = resolve)),
+      );
+      const client = new WolframClient({ appId: 'app' }, { transport });
+      const controller = new AbortController();
+
+      const first = client.getShortAnswer('2+2');
+      await vi.waitFor(() => expect(transport.get).toHaveBeenCalledTimes(1));
+      const second = client.getShortAnswer('2+2', { signal: controller.signal });
+      controller.abort();
+      answer({ status: 200, data: '4' });
+
+      await expect(second).rejects.toBeInstanceOf(WolframAbortedError);
+      await expect(first).resolves.toMatchObject({ answer: '4' });
+      expect(transport.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share a request between callers that carry signals', async () => {
+      transport.get.mockImplementationOnce(hanging);
+      const client = new WolframClient({ appId: 'app' }, { transport });
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const firstCall = client.getShortAnswer('2+2', { signal: first.signal });
+      await vi.waitFor(() => expect(transport.get).toHaveBeenCalledTimes(1));
+      const secondCall = client.getShortAnswer('2+2', { signal: second.signal });
+      const { signal } = transport.get.mock.calls[0][1];
+
+      first.abort();
+      await expect(firstCall).rejects.toBeInstanceOf(WolframAbortedError);
+      expect(signal.aborted).toBe(false);
+
+      second.abort();
+      await expect(secondCall).rejects.toBeInstanceOf(WolframAbortedError);
+      expect(signal.aborted).toBe(true);
+      expect(transport.get).toHaveBeenCalledTimes(1);
+      expect(client.getStats().coalescing.coalesced).toBe(1);
+    });
+
+    it('should not let a later caller join a request every caller abandoned', async () => {
+      transport.get.mockImplementationOnce(hanging);
+      const client = new WolframClient({ appId: 'app' }, { transport });
+      const controller = new AbortController();
+
+      const aborted = client.getShortAnswer('2+2', { signal: controller.signal });
+      await vi.waitFor(() => expect(transport.get).toHaveBeenCalledTimes(1));
+      controller.abort();
+      const later = client.getShortAnswer('2+2');
+
+      await expect(aborted).rejects.toBeInstanceOf(WolframAbortedError);
+      await expect(later).resolves.toMatchObject({ answer: '4' });
+      expect(transport.get).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => new WolframClient({ appId: '', timeout: 10 })).toThrow(
+      /Wolfram client options are invalid/,
+    );
+  });
+});
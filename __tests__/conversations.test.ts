@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import { WolframConversationSessions } from '../src/conversations';
+
+const state = (conversationID: string) => ({
+  conversationID,
+  host: 'www5b.wolframalpha.com',
+  s: '1',
+});
+
+describe('WolframConversationSessions', () => {
+  let store: Map<string, unknown>;
+  let runtime: IAgentRuntime;
+  let now: number;
+
+  beforeEach(() => {
+    store = new Map();
+    now = 1000;
+    runtime = {
+      getCache: vi.fn(async (key: string) => store.get(key)),
+      setCache: vi.fn(async (key: string, value: unknown) => {
+        store.set(key, value);
+        return true;
+      }),
+      deleteCache: vi.fn(async (key: string) => store.delete(key)),
+    } as unknown as IAgentRuntime;
+  });
+
+  it('should forget sessions that were idle longer than the TTL', async () => {
+    const sessions = new WolframConversationSessions(runtime, { ttl: 500 }, () => now);
+    sessions.set('agent:room:user', state('conv-1'));
+
+    now = 1400;
+    expect(await sessions.get('agent:room:user')).toMatchObject({ conversationID: 'conv-1' });
+
+    now = 1600;
+    expect(await sessions.get('agent:room:user')).toBeUndefined();
+    await sessions.flush();
+    expect(store.size).toBe(0);
+  });
+
+  it('should drop the least recently used session past the cap', async () => {
+    const sessions = new WolframConversationSessions(runtime, { maxSessions: 2 }, () => now);
+    sessions.set('a', state('conv-a'));
+    sessions.set('b', state('conv-b'));
+    await sessions.get('a');
+    sessions.set('c', state('conv-c'));
+    await sessions.flush();
+
+    expect(sessions.size).toBe(2);
+    expect(store.has('wolfram:conversation:b')).toBe(false);
+    expect(await sessions.get('a')).toBeDefined();
+    expect(await sessions.get('c')).toBeDefined();
+  });
+
+  it('should restore sessions from the runtime cache', async () => {
+    const first = new WolframConversationSessions(runtime, {}, () => now);
+    first.set('agent:room:user', state('conv-1'));
+    await first.flush();
+
+    const second = new WolframConversationSessions(runtime, {}, () => now);
+    expect(await second.get('agent:room:user')).toEqual({ ...state('conv-1'), updatedAt: 1000 });
+  });
+
+  it('should not bring back a deleted session before the delete is written', async () => {
+    const sessions = new WolframConversationSessions(runtime, {}, () => now);
+    store.set('wolfram:conversation:k', { ...state('conv-1'), updatedAt: now });
+
+    expect(sessions.delete('k')).toBe(false);
+    expect(await sessions.get('k')).toBeUndefined();
+  });
+});
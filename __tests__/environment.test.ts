@@ -27,6 +27,8 @@ describe('Wolfram Environment Configuration', () => {
       expect(config.WOLFRAM_TIMEOUT).toBe(10000);
       expect(config.WOLFRAM_UNITS).toBe('metric');
       expect(config.WOLFRAM_MAX_RESULTS).toBe(5);
+      expect(config.WOLFRAM_CACHE_BACKEND).toBe('memory');
+      expect(config.WOLFRAM_CACHE_KEY_NORMALIZATION).toBe('full');
     });
 
     it('should accept WOLFRAM_ALPHA_APP_ID as alternative', async () => {
@@ -147,6 +149,243 @@ describe('Wolfram Environment Configuration', () => {
         'Wolfram configuration validation failed'
       );
     });
+
+    it('should require a fixture path for the replay transport', async () => {
+      const replayRuntime = {
+        getSetting: (key: string) => {
+          const settings: Record<string, string> = {
+            WOLFRAM_APP_ID: 'test-app-id',
+            WOLFRAM_TRANSPORT: 'replay',
+          };
+          return settings[key];
+        },
+      } as IAgentRuntime;
+
+      await expect(validateWolframConfig(replayRuntime)).rejects.toThrow(
+        'WOLFRAM_FIXTURE_PATH'
+      );
+    });
+
+    it('should require a cache path for the file cache backend', async () => {
+      const fileRuntime = {
+        getSetting: (key: string) => {
+          const settings: Record<string, string> = {
+            WOLFRAM_APP_ID: 'test-app-id',
+            WOLFRAM_CACHE_BACKEND: 'file',
+          };
+          return settings[key];
+        },
+      } as IAgentRuntime;
+
+      await expect(validateWolframConfig(fileRuntime)).rejects.toThrow(
+        'WOLFRAM_CACHE_PATH'
+      );
+    });
+
+    it('should parse TTL rules from a JSON setting', async () => {
+      const rulesRuntime = {
+        getSetting: (key: string) => {
+          const settings: Record<string, string> = {
+            WOLFRAM_APP_ID: 'test-app-id',
+            WOLFRAM_CACHE_TTL_RULES: '[{"scanner":"Weather","ttl":"never"}]',
+          };
+          return settings[key];
+        },
+      } as IAgentRuntime;
+
+      const config = await validateWolframConfig(rulesRuntime);
+
+      expect(config.WOLFRAM_CACHE_TTL_RULES).toEqual([{ scanner: 'Weather', ttl: 'never' }]);
+    });
+
+    it('should reject malformed TTL rules', async () => {
+      const rulesRuntime = {
+        getSetting: (key: string) => {
+          const settings: Record<string, string> = {
+            WOLFRAM_APP_ID: 'test-app-id',
+            WOLFRAM_CACHE_TTL_RULES: 'not json',
+          };
+          return settings[key];
+        },
+      } as IAgentRuntime;
+
+      await expect(validateWolframConfig(rulesRuntime)).rejects.toThrow(
+        'WOLFRAM_CACHE_TTL_RULES'
+      );
+    });
+
+    it('should reject an unknown cache key normalization mode', async () => {
+      const modeRuntime = {
+        getSetting: (key: string) => {
+          const settings: Record<string, string> = {
+            WOLFRAM_APP_ID: 'test-app-id',
+            WOLFRAM_CACHE_KEY_NORMALIZATION: 'aggressive',
+          };
+          return settings[key];
+        },
+      } as IAgentRuntime;
+
+      await expect(validateWolframConfig(modeRuntime)).rejects.toThrow(
+        'WOLFRAM_CACHE_KEY_NORMALIZATION'
+      );
+    });
+
+    it('should reject a soft quota limit above the hard limit', async () => {
+      const quotaRuntime = {
+        getSetting: (key: string) => {
+          const settings: Record<string, string> = {
+            WOLFRAM_APP_ID: 'test-app-id',
+            WOLFRAM_MONTHLY_QUOTA: '500',
+            WOLFRAM_QUOTA_SOFT_LIMIT: '0.9',
+            WOLFRAM_QUOTA_HARD_LIMIT: '0.5',
+          };
+          return settings[key];
+        },
+      } as IAgentRuntime;
+
+      await expect(validateWolframConfig(quotaRuntime)).rejects.toThrow(
+        'WOLFRAM_QUOTA_SOFT_LIMIT'
+      );
+    });
+
+    it('should parse comma-separated retry settings', async () => {
+      const retryRuntime = {
+        getSetting: (key: string) => {
+          const settings: Record<string, string> = {
+            WOLFRAM_APP_ID: 'test-app-id',
+            WOLFRAM_RETRY_MAX_ATTEMPTS: '5',
+            WOLFRAM_RETRY_STATUSES: '429, 503',
+            WOLFRAM_RETRY_ERROR_CODES: 'ECONNRESET,EAI_AGAIN',
+          };
+          return settings[key];
+        },
+      } as IAgentRuntime;
+
+      const config = await validateWolframConfig(retryRuntime);
+
+      expect(config.WOLFRAM_RETRY_MAX_ATTEMPTS).toBe(5);
+      expect(config.WOLFRAM_RETRY_STATUSES).toEqual([429, 503]);
+      expect(config.WOLFRAM_RETRY_ERROR_CODES).toEqual(['ECONNRESET', 'EAI_AGAIN']);
+    });
+
+    it('should parse async pod settings', async () => {
+      const asyncRuntime = {
+        getSetting: (key: string) => {
+          const settings: Record<string, string> = {
+            WOLFRAM_APP_ID: 'test-app-id',
+            WOLFRAM_ASYNC_PODS: 'true',
+            WOLFRAM_ASYNC_WAIT: '1500',
+          };
+          return settings[key];
+        },
+      } as IAgentRuntime;
+
+      const config = await validateWolframConfig(asyncRuntime);
+
+      expect(config.WOLFRAM_ASYNC_PODS).toBe(true);
+      expect(config.WOLFRAM_ASYNC_WAIT).toBe(1500);
+    });
+
+    it('should parse App IDs with optional per-ID monthly limits', async () => {
+      const appIdsRuntime = {
+        getSetting: (key: string) =>
+          ({
+            WOLFRAM_APP_IDS: 'app-a:2000, app-b',
+            WOLFRAM_APP_ID_STRATEGY: 'quota',
+          })[key],
+      } as IAgentRuntime;
+
+      const config = await validateWolframConfig(appIdsRuntime);
+
+      expect(config.WOLFRAM_APP_ID).toBe('app-a');
+      expect(config.WOLFRAM_APP_IDS).toEqual([
+        { appId: 'app-a', monthlyLimit: 2000 },
+        { appId: 'app-b' },
+      ]);
+      expect(config.WOLFRAM_APP_ID_STRATEGY).toBe('quota');
+    });
+
+    it('should reject an App ID limit that is not a number', async () => {
+      const appIdsRuntime = {
+        getSetting: (key: string) =>
+          ({ WOLFRAM_APP_IDS: 'app-a:lots' })[key],
+      } as IAgentRuntime;
+
+      await expect(validateWolframConfig(appIdsRuntime)).rejects.toThrow('WOLFRAM_APP_IDS');
+    });
+
+    it('should parse conversation session settings', async () => {
+      const conversationRuntime = {
+        getSetting: (key: string) =>
+          ({
+            WOLFRAM_APP_ID: 'test-app-id',
+            WOLFRAM_CONVERSATION_SCOPE: 'room',
+            WOLFRAM_CONVERSATION_TTL: '60000',
+            WOLFRAM_CONVERSATION_MAX_SESSIONS: '20',
+          })[key],
+      } as IAgentRuntime;
+
+      const config = await validateWolframConfig(conversationRuntime);
+
+      expect(config.WOLFRAM_CONVERSATION_SCOPE).toBe('room');
+      expect(config.WOLFRAM_CONVERSATION_TTL).toBe(60000);
+      expect(config.WOLFRAM_CONVERSATION_MAX_SESSIONS).toBe(20);
+    });
+
+    it('should parse the batch concurrency and reject values out of range', async () => {
+      const batchRuntime = (concurrency?: string) =>
+        ({
+          getSetting: (key: string) =>
+            ({
+              WOLFRAM_APP_ID: 'test-app-id',
+              WOLFRAM_BATCH_CONCURRENCY: concurrency,
+            })[key],
+        }) as IAgentRuntime;
+
+      expect((await validateWolframConfig(batchRuntime())).WOLFRAM_BATCH_CONCURRENCY).toBe(4);
+      expect((await validateWolframConfig(batchRuntime('8'))).WOLFRAM_BATCH_CONCURRENCY).toBe(8);
+      await expect(validateWolframConfig(batchRuntime('50'))).rejects.toThrow(
+        /WOLFRAM_BATCH_CONCURRENCY/,
+      );
+    });
+
+    it('should parse latency buckets and reject non-positive bounds', async () => {
+      const bucketRuntime = (buckets?: string) =>
+        ({
+          getSetting: (key: string) =>
+            ({
+              WOLFRAM_APP_ID: 'test-app-id',
+              WOLFRAM_METRICS_BUCKETS: buckets,
+            })[key],
+        }) as IAgentRuntime;
+
+      expect((await validateWolframConfig(bucketRuntime())).WOLFRAM_METRICS_BUCKETS).toBeUndefined();
+      expect(
+        (await validateWolframConfig(bucketRuntime('100, 1000,5000'))).WOLFRAM_METRICS_BUCKETS,
+      ).toEqual([100, 1000, 5000]);
+      await expect(validateWolframConfig(bucketRuntime('100,0'))).rejects.toThrow(
+        /WOLFRAM_METRICS_BUCKETS/,
+      );
+    });
+
+    it('should parse answer strategies and reject unknown sources', async () => {
+      const strategyRuntime = (strategy: string) =>
+        ({
+          getSetting: (key: string) =>
+            ({
+              WOLFRAM_APP_ID: 'test-app-id',
+              WOLFRAM_COMPUTE_STRATEGY: strategy,
+            })[key],
+        }) as IAgentRuntime;
+
+      const config = await validateWolframConfig(strategyRuntime('result, short, query'));
+
+      expect(config.WOLFRAM_COMPUTE_STRATEGY).toEqual(['result', 'short', 'query']);
+      expect(config.WOLFRAM_QUICK_ANSWER_STRATEGY).toEqual(['short']);
+      await expect(validateWolframConfig(strategyRuntime('short,llm'))).rejects.toThrow(
+        'WOLFRAM_COMPUTE_STRATEGY',
+      );
+    });
   });
 
   describe('isWolframConfigured', () => {
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  WolframAbortedError,
+  WolframApiError,
+  WolframError,
+  WolframInputNotUnderstoodError,
+  WolframInvalidAppIdError,
+  WolframNetworkError,
+  WolframTimeoutError,
+  describeActionError,
+  toWolframError,
+} from '../src/types';
+
+const httpError = (status: number) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), { response: { status } });
+
+describe('toWolframError', () => {
+  it('maps rejected App IDs', () => {
+    const error = toWolframError(httpError(403), '/short');
+
+    expect(error).toBeInstanceOf(WolframInvalidAppIdError);
+    expect(error).toMatchObject({ code: 'INVALID_APP_ID', status: 403, endpoint: '/short' });
+  });
+
+  it('maps 501 to input not understood when the input is known', () => {
+    const error = toWolframError(httpError(501), '/short', 'blorfle');
+
+    expect(error).toBeInstanceOf(WolframInputNotUnderstoodError);
+    expect(error.userMessage).toContain('"blorfle"');
+  });
+
+  it('maps other statuses to API errors', () => {
+    expect(toWolframError(httpError(503), '/query')).toBeInstanceOf(WolframApiError);
+  });
+
+  it('maps cancelled requests', () => {
+    const canceled = Object.assign(new Error('canceled'), { code: 'ERR_CANCELED' });
+
+    expect(toWolframError(canceled, '/short')).toBeInstanceOf(WolframAbortedError);
+    expect(toWolframError(canceled, '/short').code).toBe('ABORTED');
+  });
+
+  it('maps timeouts and other transport failures', () => {
+    const timeout = Object.assign(new Error('timeout of 1000ms exceeded'), { code: 'ECONNABORTED' });
+    const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+    expect(toWolframError(timeout, '/query')).toBeInstanceOf(WolframTimeoutError);
+    expect(toWolframError(reset, '/query')).toBeInstanceOf(WolframNetworkError);
+    expect(toWolframError(reset, '/query').cause).toBe(reset);
+  });
+
+  it('passes WolframErrors through unchanged', () => {
+    const original = new WolframTimeoutError('slow');
+
+    expect(toWolframError(original, '/query')).toBe(original);
+    expect(original).toBeInstanceOf(WolframError);
+  });
+});
+
+describe('describeActionError', () => {
+  it('reports the user message and code of WolframErrors', () => {
+    const error = new WolframTimeoutError('slow');
+
+    expect(describeActionError(error, 'Failed to compute')).toEqual({
+      message: error.userMessage,
+      error: 'TIMEOUT',
+    });
+  });
+
+  it('prefixes the message of anything else with the fallback', () => {
+    const error = new Error('boom');
+
+    expect(describeActionError(error, 'Failed to compute')).toEqual({
+      message: 'Failed to compute: boom',
+      error,
+    });
+    expect(describeActionError('boom', 'Failed to compute').error).toBeInstanceOf(Error);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import { WolframMetrics, endpointName, renderPrometheusMetrics } from '../src/metrics';
+import { WolframClient } from '../src/client';
+import { WolframAPIEndpoint } from '../src/types';
+import { validateWolframConfig, wolframConfigFromOptions } from '../src/environment';
+import { createMetricsRoute } from '../src/routes/metrics';
+import { wolframPlugin } from '../src/index';
+
+describe('WolframMetrics', () => {
+  it('should name endpoints by their API', () => {
+    expect(endpointName(WolframAPIEndpoint.SHORT)).toBe('short');
+    expect(endpointName(WolframAPIEndpoint.LLM)).toBe('llm');
+    expect(endpointName(WolframAPIEndpoint.ASYNC_POD)).toBe('async_pod');
+    expect(endpointName('/custom')).toBe('/custom');
+  });
+
+  it('should keep cumulative latency buckets and errors by code', () => {
+    const metrics = new WolframMetrics([500, 100]);
+    metrics.recordRequest('/query', 40);
+    metrics.recordRequest('/query', 300, { code: 'API_ERROR' });
+    metrics.recordRequest('/query', 900, { code: 'API_ERROR' });
+    metrics.recordRefusal('/query', { code: 'CIRCUIT_OPEN' });
+    metrics.recordRequest('/short', 10, { code: 'TIMEOUT' });
+
+    const { query } = metrics.getStats();
+    expect(query.requests).toBe(3);
+    expect(query.errors).toEqual({ API_ERROR: 2, CIRCUIT_OPEN: 1 });
+    expect(query.latency).toEqual({ buckets: [100, 500], counts: [1, 2], count: 3, sum: 1240 });
+    expect(metrics.errorTotals()).toEqual({ API_ERROR: 2, CIRCUIT_OPEN: 1, TIMEOUT: 1 });
+  });
+});
+
+describe('renderPrometheusMetrics', () => {
+  it('should render counters, gauges and histograms from getStats()', async () => {
+    let calls = 0;
+    const transport = {
+      get: async () => {
+        calls += 1;
+        if (calls === 1) throw { response: { status: 503 }, message: 'Unavailable' };
+        return { status: 200, data: '4' };
+      },
+    };
+    const client = new WolframClient(
+      {
+        ...wolframConfigFromOptions({ appId: 'app', metricsBuckets: [1000, 60000] }),
+        WOLFRAM_RETRY_BASE_DELAY: 0,
+      },
+      { transport },
+    );
+
+    await client.getShortAnswer('2+2');
+    await client.getShortAnswer('2+2');
+
+    const stats = client.getStats();
+    expect(stats.endpoints.short).toMatchObject({ requests: 2, errors: { API_ERROR: 1 } });
+    expect(stats.errors).toEqual({ API_ERROR: 1 });
+    expect(stats.cacheHitRatio).toBe(0.5);
+
+    const text = client.getPrometheusMetrics();
+    expect(text).toContain('# TYPE wolfram_requests_total counter');
+    expect(text).toContain('wolfram_requests_total{endpoint="short"} 2');
+    expect(text).toContain('wolfram_request_errors_total{endpoint="short",code="API_ERROR"} 1');
+    expect(text).toContain('# TYPE wolfram_request_duration_seconds histogram');
+    expect(text).toContain('wolfram_request_duration_seconds_bucket{endpoint="short",le="60"} 2');
+    expect(text).toContain('wolfram_request_duration_seconds_bucket{endpoint="short",le="+Inf"} 2');
+    expect(text).toContain('wolfram_request_duration_seconds_count{endpoint="short"} 2');
+    expect(text).toContain('wolfram_retries_total{reason="503"} 1');
+    expect(text).toContain('wolfram_cache_hit_ratio 0.5');
+    expect(text).toContain('wolfram_circuit_state{endpoint="short",state="closed"} 1');
+    expect(text).not.toContain('app"');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+
+  it('should escape label values', () => {
+    const metrics = new WolframMetrics([100]);
+    metrics.recordRequest('say "hi"\\\n', 5);
+    const client = new WolframClient({ appId: 'app' });
+
+    const text = renderPrometheusMetrics({ ...client.getStats(), endpoints: metrics.getStats() });
+
+    expect(text).toContain('wolfram_requests_total{endpoint="say \\"hi\\"\\\\\\n"} 1');
+  });
+});
+
+describe('metrics route', () => {
+  const settingsRuntime = (settings: Record<string, string>) =>
+    ({
+      getSetting: (key: string) => ({ WOLFRAM_APP_ID: 'app', ...settings })[key],
+      getService: vi.fn(),
+      routes: [],
+    }) as unknown as IAgentRuntime;
+
+  const response = () => {
+    const res: any = { headers: {} };
+    res.status = vi.fn(() => res);
+    res.send = vi.fn(() => res);
+    res.setHeader = vi.fn((name: string, value: string) => (res.headers[name] = value));
+    return res;
+  };
+
+  it('should only exist when enabled, and need auth unless made public', async () => {
+    expect(createMetricsRoute(await validateWolframConfig(settingsRuntime({})))).toBeUndefined();
+
+    const route = createMetricsRoute(
+      await validateWolframConfig(settingsRuntime({ WOLFRAM_METRICS_ROUTE: 'true' })),
+    );
+    expect(route).toMatchObject({ type: 'GET', path: '/wolfram/metrics', public: false });
+
+    const open = createMetricsRoute(
+      await validateWolframConfig(
+        settingsRuntime({ WOLFRAM_METRICS_ROUTE: 'true', WOLFRAM_METRICS_ROUTE_PUBLIC: 'true' }),
+      ),
+    );
+    expect(open?.public).toBe(true);
+  });
+
+  it('should serve the Prometheus text, or 503 without the service', async () => {
+    const runtime = settingsRuntime({ WOLFRAM_METRICS_ROUTE: 'true' });
+    const route = createMetricsRoute(await validateWolframConfig(runtime))!;
+
+    const missing = response();
+    await route.handler!({}, missing, runtime);
+    expect(missing.status).toHaveBeenCalledWith(503);
+
+    const client = new WolframClient({ appId: 'app' });
+    (runtime.getService as any).mockReturnValue({
+      client,
+      getPrometheusMetrics: () => client.getPrometheusMetrics(),
+    });
+    const res = response();
+    await route.handler!({}, res, runtime);
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.headers['Content-Type']).toMatch(/^text\/plain/);
+    expect(res.send.mock.calls[0][0]).toContain('# TYPE wolfram_requests_total counter');
+  });
+
+  it('should be registered by the plugin only when enabled', async () => {
+    const disabled = settingsRuntime({});
+    await wolframPlugin.init!({}, disabled);
+    expect(disabled.routes).toEqual([]);
+
+    const enabled = settingsRuntime({ WOLFRAM_METRICS_ROUTE: 'true' });
+    await wolframPlugin.init!({}, enabled);
+    expect(enabled.routes.map((route) => route.path)).toEqual(['/wolfram/metrics']);
+    expect(wolframPlugin.routes ?? []).toEqual([]);
+  });
+});
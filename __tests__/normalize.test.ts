@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { buildCacheKey, normalizeInput, stableStringify } from '../src/normalize';
+
+describe('normalizeInput', () => {
+  it('collapses whitespace and folds case', () => {
+    expect(normalizeInput('  Population   of  TOKYO ')).toBe('population of tokyo');
+  });
+
+  it('drops spaces around operators', () => {
+    expect(normalizeInput('x ^ 2 + 3 x = 0')).toBe('x^2+3 x=0');
+  });
+
+  it('maps Unicode math symbols to ASCII', () => {
+    expect(normalizeInput('6 × 7 ÷ 2 − 1')).toBe('6*7/2-1');
+    expect(normalizeInput('x² + y³')).toBe('x^2+y^3');
+    expect(normalizeInput('x²')).toBe(normalizeInput('x^2'));
+  });
+
+  it('keeps case in preserve-case mode', () => {
+    expect(normalizeInput(' Co  vs CO ', 'preserve-case')).toBe('Co vs CO');
+  });
+
+  it('leaves input untouched when off', () => {
+    expect(normalizeInput(' 2 + 2 ', 'off')).toBe(' 2 + 2 ');
+  });
+});
+
+describe('stableStringify', () => {
+  it('sorts keys and drops undefined values', () => {
+    expect(stableStringify({ b: 1, a: { d: 2, c: undefined } })).toBe(
+      stableStringify({ a: { d: 2 }, b: 1 }),
+    );
+  });
+});
+
+describe('buildCacheKey', () => {
+  it('appends serialized options only when given', () => {
+    expect(buildCacheKey('simple', 'Speed of Light')).toBe('simple:speed of light');
+    expect(buildCacheKey('query', 'pi', 'full', { units: 'metric', format: 'plaintext' })).toBe(
+      'query:pi:{"format":"plaintext","units":"metric"}',
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { findPodState, listPodStates } from '../src/podStates';
+import { WolframAlphaQueryResult } from '../src/types';
+
+const result = {
+  success: true,
+  numpods: 2,
+  pods: [
+    {
+      title: 'Decimal approximation',
+      id: 'DecimalApproximation',
+      subpods: [],
+      states: [{ name: 'More digits', input: 'DecimalApproximation__More digits' }],
+    },
+    {
+      title: 'Indefinite integral',
+      id: 'IndefiniteIntegral',
+      subpods: [],
+      states: [
+        {
+          value: 'Step-by-step',
+          delimiters: '',
+          states: [
+            { name: 'Step-by-step solution', input: 'IndefiniteIntegral__Step-by-step solution' },
+            { name: 'Show all steps', input: 'IndefiniteIntegral__Show all steps' },
+          ],
+        },
+        { name: 'Exact form', input: 'IndefiniteIntegral__Exact form' },
+      ],
+    },
+  ],
+} as unknown as WolframAlphaQueryResult;
+
+describe('listPodStates', () => {
+  it('should flatten nested state lists', () => {
+    expect(listPodStates(result).map((option) => option.name)).toEqual([
+      'More digits',
+      'Step-by-step solution',
+      'Show all steps',
+      'Exact form',
+    ]);
+    expect(listPodStates(result)[1]).toEqual({
+      podId: 'IndefiniteIntegral',
+      podTitle: 'Indefinite integral',
+      name: 'Step-by-step solution',
+      input: 'IndefiniteIntegral__Step-by-step solution',
+      group: 'Step-by-step',
+    });
+  });
+
+  it('should filter by pod id', () => {
+    expect(listPodStates(result, 'DecimalApproximation')).toHaveLength(1);
+    expect(listPodStates(result, 'Missing')).toEqual([]);
+  });
+});
+
+describe('findPodState', () => {
+  const options = listPodStates(result);
+
+  it('should prefer an exact name', () => {
+    expect(findPodState(options, 'show all steps')?.input).toBe('IndefiniteIntegral__Show all steps');
+  });
+
+  it('should match requests by shared words', () => {
+    expect(findPodState(options, 'Show more digits please')?.name).toBe('More digits');
+    expect(findPodState(options, 'show the exact form')?.name).toBe('Exact form');
+    expect(findPodState(options, 'show steps')?.name).toBe('Step-by-step solution');
+  });
+
+  it('should return undefined when nothing matches', () => {
+    expect(findPodState(options, 'plot it')).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import { WolframAssumptionPreferences } from '../src/preferences';
+import { WolframAlphaQueryResult, WolframAssumptionOption } from '../src/types';
+
+const element: WolframAssumptionOption = {
+  type: 'Clash',
+  word: 'Mercury',
+  name: 'Element',
+  desc: 'a chemical element',
+  input: '*C.Mercury-_*Element-',
+  current: false,
+};
+
+const resultFor = (current: string) =>
+  ({
+    success: true,
+    numpods: 0,
+    pods: [],
+    assumptions: [
+      {
+        type: 'Clash',
+        word: 'mercury',
+        values: (current === 'Planet' ? ['Planet', 'Element'] : ['Element', 'Planet']).map((name) => ({
+          name,
+          desc: name === 'Planet' ? 'a planet' : 'a chemical element',
+          input: `*C.mercury-_*${name}-`,
+        })),
+      },
+    ],
+  }) as unknown as WolframAlphaQueryResult;
+
+describe('WolframAssumptionPreferences', () => {
+  let store: Map<string, unknown>;
+  let runtime: IAgentRuntime;
+  let preferences: WolframAssumptionPreferences;
+
+  beforeEach(() => {
+    store = new Map();
+    runtime = {
+      getCache: vi.fn(async (key: string) => store.get(key)),
+      setCache: vi.fn(async (key: string, value: unknown) => {
+        store.set(key, value);
+        return true;
+      }),
+    } as unknown as IAgentRuntime;
+    preferences = new WolframAssumptionPreferences(runtime, () => 1000);
+  });
+
+  it('should remember one choice per word and type', async () => {
+    await preferences.remember('user:1', { ...element, name: 'Planet', desc: 'a planet' });
+    await preferences.remember('user:1', element);
+
+    const listed = await preferences.list('user:1');
+    expect(listed).toHaveLength(1);
+    expect(listed[0]).toMatchObject({ word: 'Mercury', name: 'Element', updatedAt: 1000 });
+    expect(await preferences.list('user:2')).toEqual([]);
+  });
+
+  it('should persist choices through the runtime cache', async () => {
+    await preferences.remember('user:1', element);
+    await preferences.flush();
+
+    const restarted = new WolframAssumptionPreferences(runtime);
+    expect(await restarted.list('user:1')).toHaveLength(1);
+  });
+
+  it('should only apply choices whose word appears in the input', async () => {
+    await preferences.remember('user:1', element);
+
+    expect(await preferences.tokensFor('user:1', 'density of mercury')).toEqual(['*C.Mercury-_*Element-']);
+    expect(await preferences.tokensFor('user:1', 'mercurial temperament')).toEqual([]);
+  });
+
+  it('should report corrections only when a result ignores a choice', async () => {
+    await preferences.remember('user:1', element);
+
+    expect(await preferences.corrections('user:1', resultFor('Planet'))).toEqual(['*C.mercury-_*Element-']);
+    expect(await preferences.corrections('user:1', resultFor('Element'))).toEqual([]);
+  });
+
+  it('should reset one word or everything', async () => {
+    await preferences.remember('user:1', element);
+    await preferences.remember('user:1', {
+      ...element,
+      word: 'football',
+      name: 'Soccer',
+      desc: 'soccer',
+      input: '*C.football-_*Soccer-',
+    });
+
+    expect(await preferences.reset('user:1', 'MERCURY')).toBe(1);
+    expect((await preferences.list('user:1')).map((p) => p.word)).toEqual(['football']);
+    expect(await preferences.reset('user:1')).toBe(1);
+    expect(await preferences.list('user:1')).toEqual([]);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import { WolframQuotaTracker, hashAppId } from '../src/quota';
+import { WolframAbortedError, WolframQuotaExceededError } from '../src/types';
+
+describe('WolframQuotaTracker', () => {
+  let store: Map<string, any>;
+  let runtime: IAgentRuntime;
+  let now: number;
+
+  beforeEach(() => {
+    store = new Map();
+    now = Date.UTC(2026, 9, 19, 12);
+    runtime = {
+      getCache: vi.fn(async (key: string) => store.get(key)),
+      setCache: vi.fn(async (key: string, value: any) => {
+        store.set(key, value);
+        return true;
+      }),
+    } as unknown as IAgentRuntime;
+  });
+
+  const tracker = (limits = {}) =>
+    new WolframQuotaTracker(runtime, { requestsPerSecond: 0, ...limits }, () => now);
+
+  it('counts calls and persists the monthly counter', async () => {
+    const quota = tracker({ monthlyLimit: 10 });
+
+    await quota.acquire('app-1');
+    await quota.acquire('app-1');
+    await quota.flush();
+
+    const [usage] = quota.getUsage();
+    expect(usage).toMatchObject({ month: '2026-10', used: 2, limit: 10, remaining: 8 });
+    expect(usage.resetsAt).toBe('2026-11-01T00:00:00.000Z');
+    expect(store.get(`wolfram:quota:${hashAppId('app-1')}`)).toEqual({ month: '2026-10', used: 2 });
+  });
+
+  it('keeps the highest count when counter writes finish out of order', async () => {
+    let calls = 0;
+    // The first write is slower than the one after it
+    runtime.setCache = vi.fn(async (key: string, value: any) => {
+      if (calls++ === 0) await new Promise((resolve) => setTimeout(resolve, 20));
+      store.set(key, value);
+      return true;
+    });
+    const quota = tracker({ monthlyLimit: 10 });
+
+    await quota.acquire('app-1');
+    await quota.acquire('app-1');
+    await quota.flush();
+
+    expect(store.get(`wolfram:quota:${hashAppId('app-1')}`)).toEqual({ month: '2026-10', used: 2 });
+  });
+
+  it('counts calls without limiting them unless a monthly limit is set', async () => {
+    const quota = tracker();
+
+    for (let i = 0; i < 2500; i++) await quota.acquire('app-1');
+    await quota.flush();
+
+    expect(quota.getUsage()[0]).toMatchObject({ used: 2500, limit: 0, remaining: null });
+  });
+
+  it('refuses calls at the hard threshold with a typed error', async () => {
+    const quota = tracker({ monthlyLimit: 10, hardLimit: 0.2 });
+
+    await quota.acquire('app-1');
+    await quota.acquire('app-1');
+    const error = await quota.acquire('app-1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(WolframQuotaExceededError);
+    expect(error.used).toBe(2);
+    expect(error.userMessage).toContain('2026-11-01');
+  });
+
+  it('applies per App ID monthly limits', async () => {
+    const quota = tracker({ monthlyLimit: 10, appIdLimits: { 'app-2': 1 } });
+
+    await quota.acquire('app-2');
+    await expect(quota.acquire('app-2')).rejects.toBeInstanceOf(WolframQuotaExceededError);
+    expect(await quota.usage('app-1')).toMatchObject({ used: 0, limit: 10, remaining: 10 });
+    expect(await quota.usage('app-2')).toMatchObject({ used: 1, limit: 1, remaining: 0 });
+  });
+
+  it('flags the soft threshold', async () => {
+    const quota = tracker({ monthlyLimit: 10, softLimit: 0.2 });
+
+    await quota.acquire('app-1');
+    expect(quota.getUsage()[0].softLimitReached).toBe(false);
+    await quota.acquire('app-1');
+    expect(quota.getUsage()[0].softLimitReached).toBe(true);
+  });
+
+  it('restores counters from the runtime cache and resets them each month', async () => {
+    store.set(`wolfram:quota:${hashAppId('app-1')}`, { month: '2026-10', used: 5 });
+    const quota = tracker({ monthlyLimit: 6 });
+
+    await quota.acquire('app-1');
+    await expect(quota.acquire('app-1')).rejects.toBeInstanceOf(WolframQuotaExceededError);
+
+    now = Date.UTC(2026, 10, 1);
+    await expect(quota.acquire('app-1')).resolves.toBeUndefined();
+    expect(quota.getUsage()[0]).toMatchObject({ month: '2026-11', used: 1 });
+  });
+
+  it('tracks each App ID separately', async () => {
+    const quota = tracker({ monthlyLimit: 1 });
+
+    await quota.acquire('app-1');
+    await expect(quota.acquire('app-2')).resolves.toBeUndefined();
+    expect(quota.getUsage()).toHaveLength(2);
+  });
+
+  it('spaces requests beyond the burst by the configured rate', async () => {
+    vi.useFakeTimers();
+    try {
+      const quota = new WolframQuotaTracker(
+        runtime,
+        { requestsPerSecond: 2, burst: 1, monthlyLimit: 0 },
+        () => now,
+      );
+      await quota.acquire('app-1');
+
+      let done = false;
+      const second = quota.acquire('app-1').then(() => (done = true));
+      await vi.advanceTimersByTimeAsync(400);
+      expect(done).toBe(false);
+      await vi.advanceTimersByTimeAsync(100);
+      await second;
+      expect(done).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('neither counts nor spends a token when the wait is aborted', async () => {
+    vi.useFakeTimers();
+    try {
+      const quota = new WolframQuotaTracker(
+        runtime,
+        { requestsPerSecond: 2, burst: 1, monthlyLimit: 10 },
+        () => now,
+      );
+      await quota.acquire('app-1');
+
+      const controller = new AbortController();
+      const aborted = quota.acquire('app-1', controller.signal).catch((e) => e);
+      await vi.advanceTimersByTimeAsync(200);
+      controller.abort();
+      expect(await aborted).toBeInstanceOf(WolframAbortedError);
+      expect(quota.getUsage()[0].used).toBe(1);
+
+      let done = false;
+      const next = quota.acquire('app-1').then(() => (done = true));
+      await vi.advanceTimersByTimeAsync(500);
+      await next;
+      expect(done).toBe(true);
+      expect(quota.getUsage()[0].used).toBe(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { WolframRetryPolicy } from '../src/retryPolicy';
+
+const httpError = (status: number, headers: Record<string, string> = {}) => ({
+  response: { status, headers },
+});
+
+describe('WolframRetryPolicy', () => {
+  it('retries configured statuses and network error codes only', () => {
+    const policy = new WolframRetryPolicy();
+
+    expect(policy.retryReason(httpError(503))).toBe('503');
+    expect(policy.retryReason(httpError(429))).toBe('429');
+    expect(policy.retryReason(httpError(501))).toBeUndefined();
+    expect(policy.retryReason(httpError(403))).toBeUndefined();
+    expect(policy.retryReason({ code: 'ECONNRESET' })).toBe('ECONNRESET');
+    expect(policy.retryReason({ code: 'ECONNABORTED' })).toBe('ECONNABORTED');
+    expect(policy.retryReason(new Error('boom'))).toBeUndefined();
+  });
+
+  it('uses full jitter bounded by the doubling ceiling and max delay', () => {
+    const policy = new WolframRetryPolicy({ baseDelayMs: 100, maxDelayMs: 300, maxAttempts: 5 }, () => 1);
+
+    expect(policy.nextDelay(httpError(503), 1)).toBe(100);
+    expect(policy.nextDelay(httpError(503), 2)).toBe(200);
+    expect(policy.nextDelay(httpError(503), 3)).toBe(300);
+
+    const zero = new WolframRetryPolicy({ baseDelayMs: 100 }, () => 0);
+    expect(zero.nextDelay(httpError(503), 1)).toBe(0);
+  });
+
+  it('stops after maxAttempts', () => {
+    const policy = new WolframRetryPolicy({ maxAttempts: 2 });
+
+    expect(policy.nextDelay(httpError(503), 1)).not.toBeNull();
+    expect(policy.nextDelay(httpError(503), 2)).toBeNull();
+  });
+
+  it('honors Retry-After in seconds and as an HTTP date', () => {
+    const now = Date.UTC(2026, 9, 19, 12);
+    const policy = new WolframRetryPolicy({}, () => 0, () => now);
+
+    expect(policy.nextDelay(httpError(429, { 'retry-after': '2' }), 1)).toBe(2000);
+    expect(
+      policy.nextDelay(httpError(503, { 'retry-after': new Date(now + 3000).toUTCString() }), 1),
+    ).toBe(3000);
+  });
+
+  it('gives up when Retry-After exceeds the max delay', () => {
+    const policy = new WolframRetryPolicy({ maxDelayMs: 5000 });
+
+    expect(policy.nextDelay(httpError(429, { 'retry-after': '60' }), 1)).toBeNull();
+  });
+});
@@ -2,16 +2,15 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { IAgentRuntime } from '@elizaos/core';
 import { WolframService } from '../src/service';
 import { validateWolframConfig } from '../src/environment';
-
-// Mock axios
-vi.mock('axios', () => ({
-  default: {
-    create: vi.fn(() => ({
-      get: vi.fn(),
-      post: vi.fn(),
-    })),
-  },
-}));
+import { WolframTtlPolicy } from '../src/ttlPolicy';
+import { WolframQuotaTracker } from '../src/quota';
+import { WolframAppIdPool } from '../src/appIds';
+import { WolframCircuitBreaker } from '../src/circuitBreaker';
+import {
+  WolframQuotaExceededError,
+  WolframCircuitOpenError,
+  WolframInvalidAppIdError,
+} from '../src/types';
 
 // Mock the environment validation
 vi.mock('../src/environment', () => ({
@@ -22,6 +21,7 @@ vi.mock('../src/environment', () => ({
 describe('WolframService', () => {
   let service: WolframService;
   let mockRuntime: IAgentRuntime;
+  let transport: { get: ReturnType<typeof vi.fn> };
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -38,6 +38,9 @@ describe('WolframService', () => {
       }),
       composeState: vi.fn(),
       getService: vi.fn(),
+      getCache: vi.fn(),
+      setCache: vi.fn().mockResolvedValue(true),
+      deleteCache: vi.fn().mockResolvedValue(true),
     } as unknown as IAgentRuntime;
 
     (validateWolframConfig as any).mockResolvedValue({
@@ -48,18 +51,19 @@ describe('WolframService', () => {
       WOLFRAM_MAX_RESULTS: 5,
     });
 
-    service = new WolframService(mockRuntime);
+    transport = {
+      get: vi.fn().mockResolvedValue({ status: 200, data: '4' }),
+    };
+    service = new WolframService(mockRuntime, transport);
   });
 
   describe('initialization', () => {
     it('should initialize successfully with valid config', async () => {
-      const mockClient = {
-        get: vi.fn().mockResolvedValue({ data: 'true' }),
-      };
-      
-      vi.spyOn(service as any, 'client', 'get').mockReturnValue(mockClient);
-      
       await expect(service.initialize()).resolves.not.toThrow();
+      expect(transport.get).toHaveBeenCalledWith('/short', {
+        params: { appid: 'test-app-id', input: '2+2' },
+        responseType: 'text',
+      });
     });
 
     it('should throw error with invalid API key', async () => {
@@ -73,10 +77,6 @@ describe('WolframService', () => {
 
   describe('query', () => {
     beforeEach(async () => {
-      const mockClient = {
-        get: vi.fn().mockResolvedValue({ data: 'true' }),
-      };
-      vi.spyOn(service as any, 'client', 'get').mockReturnValue(mockClient);
       await service.initialize();
     });
 
@@ -102,10 +102,7 @@ describe('WolframService', () => {
         },
       };
 
-      const mockClient = {
-        get: vi.fn().mockResolvedValue(mockResponse),
-      };
-      vi.spyOn(service as any, 'client', 'get').mockReturnValue(mockClient);
+      transport.get.mockResolvedValue(mockResponse);
 
       const result = await service.query('2+2');
       
@@ -125,47 +122,531 @@ describe('WolframService', () => {
         },
       };
 
-      const mockClient = {
-        get: vi.fn().mockResolvedValue(mockResponse),
-      };
-      vi.spyOn(service as any, 'client', 'get').mockReturnValue(mockClient);
+      transport.get.mockResolvedValue(mockResponse);
+
+      transport.get.mockClear();
 
       // First query
       await service.query('test query');
       // Second query (should use cache)
       await service.query('test query');
 
-      expect(mockClient.get).toHaveBeenCalledTimes(1);
+      expect(transport.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache results a TTL rule marks as never', async () => {
+      service.client.ttlPolicy = new WolframTtlPolicy([{ scanner: 'Weather', ttl: 'never' }]);
+      transport.get.mockResolvedValue({
+        data: {
+          queryresult: {
+            success: true,
+            numpods: 1,
+            pods: [{ title: 'Weather forecast', id: 'WeatherForecast', scanner: 'Weather', subpods: [] }],
+          },
+        },
+      });
+      transport.get.mockClear();
+
+      await service.query('weather in Oslo');
+      await service.query('weather in Oslo');
+
+      expect(transport.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share cache entries between equivalent spellings', async () => {
+      transport.get.mockResolvedValue({
+        data: { queryresult: { success: true, numpods: 0, pods: [] } },
+      });
+      transport.get.mockClear();
+
+      await service.query('2+2');
+      await service.query(' 2 + 2 ');
+      await service.query('2 +2');
+
+      expect(transport.get).toHaveBeenCalledTimes(1);
+      expect(transport.get.mock.calls[0][1].params.input).toBe('2+2');
+    });
+
+    it('should report an invalid App ID returned inside the query result', async () => {
+      transport.get.mockResolvedValue({
+        data: { queryresult: { success: false, error: { code: '1', msg: 'Invalid appid' } } },
+      });
+
+      await expect(service.query('anything')).rejects.toBeInstanceOf(WolframInvalidAppIdError);
+    });
+
+    it('should report a response without a queryresult as malformed', async () => {
+      transport.get.mockResolvedValue({ status: 200, data: '<html>Bad gateway</html>' });
+
+      await expect(service.query('anything')).rejects.toMatchObject({ code: 'MALFORMED_RESPONSE' });
+    });
+
+    it('should count cache hits and misses', async () => {
+      transport.get.mockResolvedValue({
+        data: { queryresult: { success: true, numpods: 0, pods: [] } },
+      });
+
+      await service.query('counted query');
+      await service.query('counted query');
+
+      const stats = service.getStats();
+      expect(stats.cacheMisses).toBe(1);
+      expect(stats.cacheHits).toBe(1);
+      expect(stats.cacheBytes).toBeGreaterThan(0);
+    });
+  });
+
+  describe('async pods', () => {
+    const ASYNC_URL = 'https://www6b3.wolframalpha.com/api/v1/asyncPod.jsp?id=MSP42';
+    const fastResult = () => ({
+      data: {
+        queryresult: {
+          success: true,
+          numpods: 2,
+          pods: [
+            { title: 'Input', id: 'Input', subpods: [{ plaintext: 'pi' }] },
+            { title: 'Decimal approximation', id: 'DecimalApproximation', numsubpods: 0, async: ASYNC_URL },
+          ],
+        },
+      },
+    });
+    const asyncPod = {
+      title: 'Decimal approximation',
+      id: 'DecimalApproximation',
+      subpods: [{ plaintext: '3.1415926535897932384626433832795028841971693993751058209749445923...' }],
+    };
+
+    beforeEach(async () => {
+      await service.initialize();
+      transport.get.mockReset();
+    });
+
+    it('should wait for async pods within the budget', async () => {
+      transport.get
+        .mockResolvedValueOnce(fastResult())
+        .mockResolvedValueOnce({ status: 200, data: { pods: [asyncPod] } });
+
+      const result = await service.query('pi', { async: true }, { waitMs: 1000 });
+
+      expect(transport.get.mock.calls[0][1].params.async).toBe(true);
+      expect(transport.get.mock.calls[1][0]).toBe(ASYNC_URL);
+      expect(result.pods[1]).toEqual(asyncPod);
+    });
+
+    it('should stream async pods that arrive after the query returns', async () => {
+      let deliver!: (response: unknown) => void;
+      transport.get
+        .mockResolvedValueOnce(fastResult())
+        .mockReturnValueOnce(new Promise((resolve) => (deliver = resolve)));
+      const onPod = vi.fn();
+
+      const result = await service.query('pi', { async: true }, { onPod });
+
+      expect(result.pods[1].async).toBe(ASYNC_URL);
+      expect(onPod).not.toHaveBeenCalled();
+
+      deliver({ status: 200, data: { pod: asyncPod } });
+      await vi.waitFor(() => expect(onPod).toHaveBeenCalledWith(asyncPod));
+
+      // The completed result is cached
+      const again = await service.query('pi', { async: true });
+      expect(again.pods[1]).toEqual(asyncPod);
+      expect(transport.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep a failed async pod as an error placeholder without caching', async () => {
+      transport.get
+        .mockResolvedValueOnce(fastResult())
+        .mockRejectedValueOnce({ response: { status: 404 }, message: 'Request failed with status code 404' });
+
+      const result = await service.query('pi', { async: true }, { waitMs: 1000 });
+
+      expect(result.pods[1]).toMatchObject({ async: ASYNC_URL, error: true });
+      expect(service.getStats().cacheSize).toBe(0);
+    });
+  });
+
+  describe('remembered assumptions', () => {
+    const mercury = (current: string) => ({
+      data: {
+        queryresult: {
+          success: true,
+          numpods: 0,
+          pods: [],
+          assumptions: [
+            {
+              type: 'Clash',
+              word: 'mercury',
+              values: (current === 'Planet' ? ['Planet', 'Element'] : ['Element', 'Planet']).map((name) => ({
+                name,
+                desc: name,
+                input: `*C.mercury-_*${name}-`,
+              })),
+            },
+          ],
+        },
+      },
+    });
+
+    beforeEach(async () => {
+      await service.initialize();
+      transport.get.mockReset();
+      await service.rememberAssumption('user:1', {
+        type: 'Clash',
+        word: 'Mercury',
+        name: 'Element',
+        desc: 'a chemical element',
+        input: '*C.Mercury-_*Element-',
+        current: false,
+      });
+    });
+
+    it('should send remembered tokens for words in the input', async () => {
+      transport.get.mockResolvedValue(mercury('Element'));
+
+      await service.query('mercury melting point', {}, { preferenceScope: 'user:1' });
+
+      expect(transport.get).toHaveBeenCalledTimes(1);
+      expect(transport.get.mock.calls[0][1].params.assumption).toEqual(['*C.Mercury-_*Element-']);
+    });
+
+    it('should re-query once when Wolfram ignores a remembered token', async () => {
+      transport.get.mockResolvedValueOnce(mercury('Planet')).mockResolvedValueOnce(mercury('Element'));
+
+      const result = await service.query('mercury', {}, { preferenceScope: 'user:1' });
+
+      expect(transport.get).toHaveBeenCalledTimes(2);
+      expect(transport.get.mock.calls[1][1].params.assumption).toEqual(['*C.mercury-_*Element-']);
+      expect(result.assumptions?.[0].values?.[0].name).toBe('Element');
+    });
+
+    it('should leave queries without a scope alone', async () => {
+      transport.get.mockResolvedValue(mercury('Planet'));
+
+      await service.query('mercury');
+
+      expect(transport.get.mock.calls[0][1].params.assumption).toBeUndefined();
+    });
+  });
+
+  describe('request coalescing', () => {
+    beforeEach(async () => {
+      await service.initialize();
+      transport.get.mockClear();
+    });
+
+    it('should share one request between concurrent identical queries', async () => {
+      let resolve: (value: any) => void = () => {};
+      transport.get.mockReturnValue(new Promise((r) => (resolve = r)));
+
+      const first = service.query('speed of light');
+      const second = service.query('speed of light');
+      resolve({ data: { queryresult: { success: true, numpods: 0, pods: [] } } });
+
+      const [a, b] = await Promise.all([first, second]);
+
+      expect(a).toBe(b);
+      expect(transport.get).toHaveBeenCalledTimes(1);
+
+      const stats = service.getStats().coalescing;
+      expect(stats.inFlight).toBe(0);
+      expect(stats.coalesced).toBe(1);
+      expect(stats.keys['query:speed of light:{}']).toMatchObject({
+        requests: 2,
+        coalesced: 1,
+      });
+    });
+
+    it('should propagate failures to every waiter and allow a retry', async () => {
+      transport.get.mockRejectedValueOnce(new Error('boom'));
+
+      const results = await Promise.allSettled([
+        service.query('fails once'),
+        service.query('fails once'),
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+      expect(transport.get).toHaveBeenCalledTimes(1);
+
+      transport.get.mockResolvedValueOnce({
+        data: { queryresult: { success: true, numpods: 0, pods: [] } },
+      });
+      await expect(service.query('fails once')).resolves.toMatchObject({ success: true });
+    });
+  });
+
+  describe('quota', () => {
+    beforeEach(async () => {
+      await service.initialize();
+      transport.get.mockClear();
+    });
+
+    it('should refuse requests once the monthly quota is spent', async () => {
+      service.client.quota = new WolframQuotaTracker(mockRuntime, {
+        requestsPerSecond: 0,
+        monthlyLimit: 1,
+      });
+      transport.get.mockResolvedValue({ data: '42' });
+
+      await service.compute('6 * 7');
+      await expect(service.compute('6 * 8')).rejects.toBeInstanceOf(WolframQuotaExceededError);
+
+      expect(transport.get).toHaveBeenCalledTimes(1);
+      expect(service.getStats().quota[0]).toMatchObject({ used: 1, remaining: 0 });
+    });
+  });
+
+  describe('App ID rotation', () => {
+    beforeEach(async () => {
+      await service.initialize();
+      service.client.appIds = new WolframAppIdPool(['app-a', 'app-b']);
+      transport.get.mockClear();
+    });
+
+    const appIdsSent = () => transport.get.mock.calls.map(([, config]) => config.params.appid);
+
+    it('should take turns between App IDs', async () => {
+      transport.get.mockResolvedValue({ data: '42' });
+
+      await service.compute('6 * 7');
+      await service.compute('6 * 8');
+      await service.compute('6 * 9');
+
+      expect(appIdsSent()).toEqual(['app-a', 'app-b', 'app-a']);
+    });
+
+    it('should fail over when Wolfram rejects an App ID', async () => {
+      transport.get
+        .mockRejectedValueOnce({ response: { status: 403 }, message: 'Invalid appid' })
+        .mockResolvedValue({ data: '42' });
+
+      await expect(service.compute('6 * 7')).resolves.toBe('42');
+      await service.compute('6 * 8');
+
+      expect(appIdsSent()).toEqual(['app-a', 'app-b', 'app-b']);
+      const [rejected, used] = service.getStats().appIds;
+      expect(rejected).toMatchObject({ failures: 1, lastError: 'INVALID_APP_ID' });
+      expect(rejected.coolingDownUntil).toBeGreaterThan(Date.now());
+      expect(used).toMatchObject({ requests: 2, failures: 0 });
+    });
+
+    it('should fail over when an App ID has no quota left', async () => {
+      service.client.quota = new WolframQuotaTracker(mockRuntime, {
+        requestsPerSecond: 0,
+        appIdLimits: { 'app-a': 1, 'app-b': 5 },
+      });
+      transport.get.mockResolvedValue({ data: '42' });
+
+      await service.compute('6 * 7');
+      await service.compute('6 * 8');
+      await service.compute('6 * 9');
+
+      expect(appIdsSent()).toEqual(['app-a', 'app-b', 'app-b']);
+      expect(service.getStats().appIds.map((stats) => stats.quota?.used)).toEqual([1, 2]);
+    });
+
+    it('should prefer the App ID with the most quota left', async () => {
+      service.client.appIds = new WolframAppIdPool(['app-a', 'app-b'], 'quota');
+      service.client.quota = new WolframQuotaTracker(mockRuntime, {
+        requestsPerSecond: 0,
+        appIdLimits: { 'app-a': 2, 'app-b': 10 },
+      });
+      transport.get.mockResolvedValue({ data: '42' });
+
+      await service.compute('6 * 7');
+
+      expect(appIdsSent()).toEqual(['app-b']);
+    });
+
+    it('should give up once every App ID was rejected', async () => {
+      transport.get.mockRejectedValue({ response: { status: 403 }, message: 'Invalid appid' });
+
+      await expect(service.compute('6 * 7')).rejects.toBeInstanceOf(WolframInvalidAppIdError);
+      expect(appIdsSent()).toEqual(['app-a', 'app-b']);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    beforeEach(async () => {
+      await service.initialize();
+      transport.get.mockClear();
+    });
+
+    it('should stop calling an endpoint that keeps failing', async () => {
+      service.client.circuitBreakers.set('/query', new WolframCircuitBreaker('/query', { failureThreshold: 2 }));
+      transport.get.mockRejectedValue(
+        Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }),
+      );
+
+      await expect(service.query('first')).rejects.toThrow('connect ECONNREFUSED');
+      await expect(service.query('second')).rejects.toThrow('connect ECONNREFUSED');
+      await expect(service.query('third')).rejects.toBeInstanceOf(WolframCircuitOpenError);
+
+      expect(transport.get).toHaveBeenCalledTimes(2);
+      expect(service.getStats().circuitBreakers['/query']).toMatchObject({ state: 'open' });
+    });
+
+    it('should keep the circuit closed for errors Wolfram reports in the response body', async () => {
+      transport.get.mockResolvedValue({
+        status: 200,
+        data: { queryresult: { success: false, error: { code: '1', msg: 'Invalid appid' } } },
+      });
+
+      for (let i = 0; i < 6; i++) {
+        await expect(service.query(`bad app id ${i}`)).rejects.toBeInstanceOf(
+          WolframInvalidAppIdError,
+        );
+      }
+
+      expect(transport.get).toHaveBeenCalledTimes(6);
+      expect(service.getStats().circuitBreakers['/query']).toMatchObject({
+        state: 'closed',
+        consecutiveFailures: 0,
+      });
+    });
+
+    it('should fall back to a full query when the /short circuit is open', async () => {
+      const shortBreaker = new WolframCircuitBreaker('/short', { failureThreshold: 1 });
+      shortBreaker.recordFailure();
+      service.client.circuitBreakers.set('/short', shortBreaker);
+      transport.get.mockResolvedValue({
+        data: {
+          queryresult: {
+            success: true,
+            pods: [{ title: 'Result', id: 'Result', subpods: [{ plaintext: '42' }] }],
+          },
+        },
+      });
+
+      await expect(service.compute('6 * 7')).resolves.toBe('42');
+      expect(transport.get).toHaveBeenCalledTimes(1);
+      expect(transport.get.mock.calls[0][0]).toBe('/query');
     });
   });
 
   describe('compute', () => {
     beforeEach(async () => {
-      const mockClient = {
-        get: vi.fn().mockResolvedValue({ data: 'true' }),
-      };
-      vi.spyOn(service as any, 'client', 'get').mockReturnValue(mockClient);
       await service.initialize();
     });
 
     it('should compute mathematical expressions', async () => {
-      const mockClient = {
-        get: vi.fn().mockResolvedValue({ data: '42' }),
-      };
-      vi.spyOn(service as any, 'client', 'get').mockReturnValue(mockClient);
+      transport.get.mockResolvedValue({ data: '42' });
 
       const result = await service.compute('6 * 7');
       
       expect(result).toBe('42');
     });
+
+    it('should fall back to a single query when /short does not understand the input', async () => {
+      transport.get.mockReset();
+      transport.get
+        .mockRejectedValueOnce({ response: { status: 501 }, message: 'Request failed with status code 501' })
+        .mockResolvedValueOnce({
+          status: 200,
+          data: {
+            queryresult: {
+              success: false,
+              error: false,
+              numpods: 0,
+              didyoumeans: { score: '0.4', level: 'medium', val: 'blob' },
+            },
+          },
+        });
+
+      const result = await service.computeWithSuggestions('blorfle');
+
+      expect(result.success).toBe(false);
+      expect(result.notUnderstood).toBe(true);
+      expect(result.suggestions?.didYouMean).toEqual(['blob']);
+      expect(transport.get.mock.calls.map((call) => call[0])).toEqual(['/short', '/query']);
+    });
+
+    it('should follow WOLFRAM_COMPUTE_STRATEGY', async () => {
+      service.wolframConfig.WOLFRAM_COMPUTE_STRATEGY = ['result', 'query'];
+      transport.get.mockReset();
+      transport.get
+        .mockRejectedValueOnce({ response: { status: 501 }, message: 'Request failed with status code 501' })
+        .mockResolvedValueOnce({
+          status: 200,
+          data: {
+            queryresult: {
+              success: true,
+              numpods: 1,
+              pods: [{ title: 'Result', id: 'Result', subpods: [{ plaintext: '42' }] }],
+            },
+          },
+        });
+
+      const result = await service.computeWithSuggestions('6 * 7');
+
+      expect(result).toEqual({ success: true, answer: '42', source: 'query' });
+      expect(transport.get.mock.calls.map((call) => call[0])).toEqual(['/result', '/query']);
+    });
+  });
+
+  describe('getResult', () => {
+    beforeEach(async () => {
+      await service.initialize();
+      transport.get.mockReset();
+    });
+
+    it('should call /result with units and location and cache the answer', async () => {
+      service.wolframConfig.WOLFRAM_LOCATION = 'Oslo';
+      transport.get.mockResolvedValue({ status: 200, data: '11 degrees Celsius' });
+
+      await service.getResult('temperature outside');
+      const result = await service.getResult('temperature outside');
+
+      expect(result).toEqual({ answer: '11 degrees Celsius', success: true });
+      expect(transport.get).toHaveBeenCalledTimes(1);
+      expect(transport.get).toHaveBeenCalledWith('/result', {
+        params: { appid: 'test-app-id', input: 'temperature outside', units: 'metric', location: 'Oslo' },
+        responseType: 'text',
+        signal: expect.any(AbortSignal),
+      });
+    });
+
+    it('should return suggestions when there is no result', async () => {
+      transport.get
+        .mockRejectedValueOnce({ response: { status: 501 }, message: 'Request failed with status code 501' })
+        .mockResolvedValueOnce({
+          status: 200,
+          data: { queryresult: { success: false, numpods: 0, didyoumeans: { val: 'blob' } } },
+        });
+
+      const result = await service.getResult('blorfle');
+
+      expect(result).toMatchObject({ success: false, notUnderstood: true });
+      expect(result.suggestions?.didYouMean).toEqual(['blob']);
+    });
+  });
+
+  describe('quickAnswer', () => {
+    beforeEach(async () => {
+      await service.initialize();
+      transport.get.mockReset();
+    });
+
+    it('should move on when an endpoint in the strategy fails', async () => {
+      service.wolframConfig.WOLFRAM_QUICK_ANSWER_STRATEGY = ['result', 'short'];
+      transport.get
+        .mockRejectedValueOnce({ response: { status: 404 }, message: 'Request failed with status code 404' })
+        .mockResolvedValueOnce({ status: 200, data: 'Paris' });
+
+      const result = await service.quickAnswer('capital of France');
+
+      expect(result).toEqual({ success: true, answer: 'Paris', source: 'short' });
+    });
+
+    it('should rethrow the last failure when no source answered', async () => {
+      transport.get.mockRejectedValue({ response: { status: 404 }, message: 'Request failed with status code 404' });
+
+      await expect(service.quickAnswer('capital of France')).rejects.toMatchObject({ code: 'API_ERROR' });
+    });
   });
 
   describe('solveMath', () => {
     beforeEach(async () => {
-      const mockClient = {
-        get: vi.fn().mockResolvedValue({ data: 'true' }),
-      };
-      vi.spyOn(service as any, 'client', 'get').mockReturnValue(mockClient);
       await service.initialize();
     });
 
@@ -185,10 +666,7 @@ describe('WolframService', () => {
         },
       };
 
-      const mockClient = {
-        get: vi.fn().mockResolvedValue(mockResponse),
-      };
-      vi.spyOn(service as any, 'client', 'get').mockReturnValue(mockClient);
+      transport.get.mockResolvedValue(mockResponse);
 
       const result = await service.solveMath('x + 3 = 5');
       
@@ -198,10 +676,6 @@ describe('WolframService', () => {
 
   describe('formatResult', () => {
     beforeEach(async () => {
-      const mockClient = {
-        get: vi.fn().mockResolvedValue({ data: 'true' }),
-      };
-      vi.spyOn(service as any, 'client', 'get').mockReturnValue(mockClient);
       await service.initialize();
     });
 
@@ -252,34 +726,30 @@ describe('WolframService', () => {
 
   describe('cache management', () => {
     beforeEach(async () => {
-      const mockClient = {
-        get: vi.fn().mockResolvedValue({ data: 'true' }),
-      };
-      vi.spyOn(service as any, 'client', 'get').mockReturnValue(mockClient);
       await service.initialize();
     });
 
     it('should clear cache', () => {
       // Add some data to cache
-      (service as any).cache.set('test-key', {
+      service.client.cache.set('test-key', {
         query: 'test',
         result: 'test-result',
         timestamp: Date.now(),
         ttl: 3600000,
       });
 
-      expect((service as any).cache.size).toBe(1);
+      expect(service.client.cache.size).toBe(1);
       
       service.clearCache();
       
-      expect((service as any).cache.size).toBe(0);
+      expect(service.client.cache.size).toBe(0);
     });
 
     it('should clean expired cache entries', () => {
       const now = Date.now();
       
       // Add expired entry
-      (service as any).cache.set('expired', {
+      service.client.cache.set('expired', {
         query: 'expired',
         result: 'expired-result',
         timestamp: now - 7200000, // 2 hours ago
@@ -287,26 +757,22 @@ describe('WolframService', () => {
       });
 
       // Add valid entry
-      (service as any).cache.set('valid', {
+      service.client.cache.set('valid', {
         query: 'valid',
         result: 'valid-result',
         timestamp: now - 1800000, // 30 minutes ago
         ttl: 3600000, // 1 hour TTL
       });
 
-      (service as any).cleanCache();
+      (service.client as any).cleanCache();
       
-      expect((service as any).cache.has('expired')).toBe(false);
-      expect((service as any).cache.has('valid')).toBe(true);
+      expect(service.client.cache.has('expired')).toBe(false);
+      expect(service.client.cache.has('valid')).toBe(true);
     });
   });
 
   describe('conversational queries', () => {
     beforeEach(async () => {
-      const mockClient = {
-        get: vi.fn().mockResolvedValue({ data: 'true' }),
-      };
-      vi.spyOn(service as any, 'client', 'get').mockReturnValue(mockClient);
       await service.initialize();
     });
 
@@ -314,15 +780,13 @@ describe('WolframService', () => {
       const mockResponse = {
         data: {
           conversationID: 'conv-123',
+          host: 'www5b.wolframalpha.com',
           result: 'Prime numbers are natural numbers greater than 1...',
-          s: 'Success',
+          s: '3',
         },
       };
 
-      const mockClient = {
-        get: vi.fn().mockResolvedValue(mockResponse),
-      };
-      vi.spyOn(service as any, 'client', 'get').mockReturnValue(mockClient);
+      transport.get.mockResolvedValue(mockResponse);
 
       const result = await service.conversationalQuery(
         'Tell me about prime numbers',
@@ -331,25 +795,125 @@ describe('WolframService', () => {
       
       expect(result.conversationID).toBe('conv-123');
       expect(result.result).toContain('Prime numbers');
+      expect(transport.get).toHaveBeenLastCalledWith(
+        'https://www.wolframalpha.com/api/v1/conversation.jsp',
+        { params: { i: 'Tell me about prime numbers', appid: 'test-app-id' } },
+      );
     });
 
-    it('should clear conversation for a user', () => {
-      (service as any).conversationCache.set('user-123', 'conv-123');
-      
-      expect((service as any).conversationCache.has('user-123')).toBe(true);
-      
-      service.clearConversation('user-123');
+    it('should still accept the maxChars argument of earlier versions', async () => {
+      transport.get.mockResolvedValue({
+        data: { conversationID: 'conv-123', host: 'www5b.wolframalpha.com', s: '3', result: 'First' },
+      });
+      const { signal } = new AbortController();
+
+      await service.conversationalQuery('Tell me about prime numbers', 'user-123', 500);
+      expect(transport.get).toHaveBeenLastCalledWith(
+        'https://www.wolframalpha.com/api/v1/conversation.jsp',
+        { params: { i: 'Tell me about prime numbers', appid: 'test-app-id' } },
+      );
+
+      await service.conversationalQuery('Which is the largest known?', 'user-123', 500, { signal });
+      expect(transport.get.mock.lastCall[1]).toMatchObject({
+        params: { conversationid: 'conv-123' },
+        signal,
+      });
+    });
+
+    it('should send follow-ups to the returned host with the s token', async () => {
+      transport.get
+        .mockResolvedValueOnce({
+          data: { conversationID: 'conv-123', host: 'www5b.wolframalpha.com', s: '3', result: 'First' },
+        })
+        .mockResolvedValueOnce({
+          data: { conversationID: 'conv-123', host: 'www5b.wolframalpha.com', s: '4', result: 'Second' },
+        });
+
+      await service.conversationalQuery('Tell me about prime numbers', 'user-123');
+      await service.conversationalQuery('Which is the largest known?', 'user-123');
+
+      expect(transport.get).toHaveBeenLastCalledWith(
+        'https://www5b.wolframalpha.com/api/v1/conversation.jsp',
+        {
+          params: {
+            i: 'Which is the largest known?',
+            appid: 'test-app-id',
+            conversationid: 'conv-123',
+            s: '3',
+          },
+        },
+      );
+      expect((await service.client.conversations.get('user-123'))?.s).toBe('4');
+    });
+
+    it('should restart an expired conversation transparently', async () => {
+      service.client.conversations.set('user-123', {
+        conversationID: 'conv-old',
+        host: 'www5b.wolframalpha.com',
+        s: '7',
+      });
+      transport.get
+        .mockResolvedValueOnce({ data: { expired: true } })
+        .mockResolvedValueOnce({
+          data: { conversationID: 'conv-new', host: 'www3.wolframalpha.com', s: '1', result: 'Fresh' },
+        });
+
+      const result = await service.conversationalQuery('And after that?', 'user-123');
+
+      expect(result.result).toBe('Fresh');
+      expect(transport.get).toHaveBeenLastCalledWith(
+        'https://www.wolframalpha.com/api/v1/conversation.jsp',
+        { params: { i: 'And after that?', appid: 'test-app-id' } },
+      );
+      expect(await service.client.conversations.get('user-123')).toMatchObject({
+        conversationID: 'conv-new',
+        host: 'www3.wolframalpha.com',
+        s: '1',
+      });
+    });
+
+    it('should keep the LLM API as a separate text query', async () => {
+      transport.get.mockResolvedValue({ data: 'Input interpretation: prime numbers' });
+
+      const text = await service.llmQuery('prime numbers', 500);
+
+      expect(text).toBe('Input interpretation: prime numbers');
+      expect(transport.get).toHaveBeenLastCalledWith(
+        'https://www.wolframalpha.com/api/v1/llm-api',
+        {
+          params: { input: 'prime numbers', appid: 'test-app-id', maxchars: 500 },
+          headers: undefined,
+        },
+      );
+      expect(service.client.conversations.size).toBe(0);
+    });
+
+    it('should clear conversation for a user', async () => {
+      service.client.conversations.set('user-123', {
+        conversationID: 'conv-123',
+        host: 'www5b.wolframalpha.com',
+        s: '3',
+      });
       
-      expect((service as any).conversationCache.has('user-123')).toBe(false);
+      expect(await service.clearConversation('user-123')).toBe(true);
+      expect(await service.client.conversations.get('user-123')).toBeUndefined();
+      expect(await service.clearConversation('user-123')).toBe(false);
+    });
+
+    it('should key conversations by agent, room and user', () => {
+      (mockRuntime as any).agentId = 'agent-1';
+      const message = { entityId: 'user-1', roomId: 'room-1' };
+
+      expect(service.conversationKey(message)).toBe('agent-1:room-1:user-1');
+
+      (service as any).wolframConfig.WOLFRAM_CONVERSATION_SCOPE = 'room';
+      expect(service.conversationKey(message)).toBe('agent-1:room-1');
+      expect(service.conversationKey({ ...message, entityId: 'user-2' })).toBe('agent-1:room-1');
     });
   });
 
   describe('getStats', () => {
     beforeEach(async () => {
-      const mockClient = {
-        get: vi.fn().mockResolvedValue({ data: 'true' }),
-      };
-      vi.spyOn(service as any, 'client', 'get').mockReturnValue(mockClient);
       await service.initialize();
     });
 
@@ -358,6 +922,7 @@ describe('WolframService', () => {
       
       expect(stats).toHaveProperty('cacheSize');
       expect(stats).toHaveProperty('activeConversations');
+      expect(stats).toHaveProperty('coalescing');
       expect(stats).toHaveProperty('config');
       expect(stats.config).toHaveProperty('units');
       expect(stats.config.units).toBe('metric');
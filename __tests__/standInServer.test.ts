@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import path from 'path';
+import { Action, IAgentRuntime, Memory } from '@elizaos/core';
+import { WolframService } from '../src/service';
+import { WolframStandInServer, loadWolframScenario } from '../src/testing';
+import { WolframTimeoutError } from '../src/types';
+import { wolframQueryAction } from '../src/actions/query';
+import { wolframComputeAction } from '../src/actions/compute';
+import { wolframSolveAction } from '../src/actions/solve';
+import { wolframStepByStepAction } from '../src/actions/stepByStep';
+import { wolframGetFactsAction } from '../src/actions/getFacts';
+import { wolframAnalyzeDataAction } from '../src/actions/analyzeData';
+import { wolframConversationalAction } from '../src/actions/conversational';
+import { wolframQuickAnswerAction } from '../src/actions/quickAnswer';
+
+const SCENARIO_PATH = path.join(__dirname, 'fixtures', 'stand-in-scenario.json');
+
+describe('WolframStandInServer', () => {
+  let server: WolframStandInServer;
+  let service: WolframService;
+  let runtime: IAgentRuntime;
+  let settings: Record<string, string>;
+  let extracted: string;
+
+  const run = async (action: Action, text: string) => {
+    const message = { userId: 'user-1', content: { text } } as unknown as Memory;
+    return (await action.handler(runtime, message, undefined, {}, vi.fn())) as any;
+  };
+
+  beforeAll(async () => {
+    server = await WolframStandInServer.fromFile(SCENARIO_PATH);
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(async () => {
+    server.setScenario(await loadWolframScenario(SCENARIO_PATH));
+    server.requests.length = 0;
+    extracted = '';
+    settings = {
+      WOLFRAM_APP_ID: 'stand-in-app-id',
+      WOLFRAM_API_ENDPOINT: server.apiEndpoint,
+      WOLFRAM_LLM_API_ENDPOINT: server.llmEndpoint,
+      WOLFRAM_CONVERSATION_ENDPOINT: server.conversationEndpoint,
+      WOLFRAM_TIMEOUT: '1000',
+    };
+    runtime = {
+      getSetting: vi.fn((key: string) => settings[key]),
+      getService: vi.fn(() => service),
+      composeState: vi.fn(async () => ({ values: {}, data: {}, text: '' })),
+      useModel: vi.fn(async () => extracted),
+    } as unknown as IAgentRuntime;
+    service = new WolframService(runtime);
+  });
+
+  describe('validateApiKey', () => {
+    it('should accept the scenario App ID', async () => {
+      await expect(service.initialize()).resolves.not.toThrow();
+      expect(server.requests[0]).toMatchObject({ endpoint: 'short', status: 200 });
+    });
+
+    it('should reject any other App ID', async () => {
+      settings.WOLFRAM_APP_ID = 'wrong-app-id';
+
+      await expect(service.initialize()).rejects.toThrow('Invalid or missing Wolfram Alpha App ID');
+      await expect(service.initialize()).rejects.toMatchObject({ code: 'INVALID_APP_ID', status: 403 });
+      expect(server.requests[0].status).toBe(403);
+    });
+  });
+
+  describe('getWithRetry', () => {
+    beforeEach(async () => {
+      await service.initialize();
+      server.requests.length = 0;
+    });
+
+    it('should retry 5xx responses until the scenario succeeds', async () => {
+      const result = await service.query('population of Tokyo');
+
+      expect(result.success).toBe(true);
+      expect(server.requests.map((r) => r.status)).toEqual([503, 503, 200]);
+    });
+
+    it('should retry a 429 once', async () => {
+      const result = await service.getShortAnswer('speed of light');
+
+      expect(result.answer).toBe('about 299792 kilometers per second');
+      expect(server.requests.map((r) => r.status)).toEqual([429, 200]);
+    });
+
+    it('should report input Wolfram did not understand without retrying', async () => {
+      const result = await service.getShortAnswer('what is a blorfle');
+
+      expect(result).toMatchObject({ success: false, notUnderstood: true });
+      expect(server.requests.map((r) => [r.endpoint, r.status])).toEqual([
+        ['short', 501],
+        ['query', 200],
+      ]);
+    });
+
+    it('should retry timeouts and then give up', async () => {
+      await expect(service.getShortAnswer('slow question')).rejects.toBeInstanceOf(
+        WolframTimeoutError,
+      );
+      expect(server.requests).toHaveLength(3);
+      expect(service.getStats().retries).toMatchObject({
+        retries: 2,
+        exhausted: 1,
+        byReason: { ECONNABORTED: 2 },
+      });
+    }, 10000);
+
+    it('should wait for Retry-After before retrying a 429', async () => {
+      const started = Date.now();
+      await service.getShortAnswer('speed of light');
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+    });
+  });
+
+  describe('actions', () => {
+    beforeEach(async () => {
+      await service.initialize();
+    });
+
+    it.each([
+      ['WOLFRAM_QUERY', wolframQueryAction, 'population of Tokyo', '37.1 million people'],
+      ['WOLFRAM_COMPUTE', wolframComputeAction, 'sqrt(144)', '12'],
+      ['WOLFRAM_SOLVE', wolframSolveAction, 'x + 3 = 5', 'x = 2'],
+      ['WOLFRAM_STEP_BY_STEP', wolframStepByStepAction, 'integrate x^2', 'power rule'],
+      ['WOLFRAM_GET_FACTS', wolframGetFactsAction, 'Mars', '3396 km'],
+      ['WOLFRAM_ANALYZE_DATA', wolframAnalyzeDataAction, '1, 2, 3, 4', '2.5'],
+      ['WOLFRAM_CONVERSATIONAL', wolframConversationalAction, '', 'exactly two divisors'],
+      ['WOLFRAM_QUICK_ANSWER', wolframQuickAnswerAction, 'speed of light', '299792'],
+    ] as const)('%s should succeed end-to-end', async (_name, action, input, expected) => {
+      extracted = input;
+      const result = await run(action as Action, input || 'What is a prime number?');
+
+      expect(result.success).toBe(true);
+      expect(result.text).toContain(expected);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  emptySuggestions,
+  extractSuggestions,
+  formatSuggestions,
+  hasSuggestions,
+} from '../src/suggestions';
+import { WolframAlphaQueryResult } from '../src/types';
+
+const notUnderstood = (extra: Record<string, unknown>) =>
+  ({
+    success: false,
+    error: false,
+    numpods: 0,
+    ...extra,
+  }) as unknown as WolframAlphaQueryResult;
+
+describe('extractSuggestions', () => {
+  it('should read didyoumeans given as a single object or an array', () => {
+    expect(
+      extractSuggestions(notUnderstood({ didyoumeans: { val: 'blob' } })).didYouMean,
+    ).toEqual(['blob']);
+    expect(
+      extractSuggestions(
+        notUnderstood({ didyoumeans: [{ val: 'blob' }, { val: 'blorf' }, { val: 'blob' }] }),
+      ).didYouMean,
+    ).toEqual(['blob', 'blorf']);
+  });
+
+  it('should collect reinterpretations and their alternatives', () => {
+    const suggestions = extractSuggestions(
+      notUnderstood({
+        warnings: {
+          reinterpret: {
+            text: 'Using closest Wolfram|Alpha interpretation:',
+            new: 'pie',
+            alternatives: [{ val: 'pi' }, { val: 'pied' }],
+          },
+        },
+      }),
+    );
+
+    expect(suggestions.reinterpretedAs).toBe('pie');
+    expect(suggestions.alternatives).toEqual(['pi', 'pied']);
+  });
+
+  it('should take related examples by input', () => {
+    const suggestions = extractSuggestions(
+      notUnderstood({
+        relatedexamples: [{ input: 'meaning of word', desc: 'Word definitions' }],
+      }),
+    );
+
+    expect(suggestions.relatedExamples).toEqual(['meaning of word']);
+  });
+
+  it('should cap each list at five entries', () => {
+    const didyoumeans = Array.from({ length: 8 }, (_, i) => ({ val: `guess ${i}` }));
+
+    expect(extractSuggestions(notUnderstood({ didyoumeans })).didYouMean).toHaveLength(5);
+  });
+});
+
+describe('formatSuggestions', () => {
+  it('should ask the user to rephrase when there are no suggestions', () => {
+    const text = formatSuggestions('blorfle', emptySuggestions());
+
+    expect(hasSuggestions(emptySuggestions())).toBe(false);
+    expect(text).toContain('couldn\'t interpret "blorfle"');
+    expect(text).toContain('rephrasing');
+  });
+
+  it('should list every kind of suggestion', () => {
+    const text = formatSuggestions('blorfle', {
+      didYouMean: ['blob'],
+      reinterpretedAs: 'blorf',
+      alternatives: ['blur'],
+      relatedExamples: ['meaning of word'],
+    });
+
+    expect(text).toContain('Did you mean: "blob"?');
+    expect(text).toContain('closest interpretation is "blorf"');
+    expect(text).toContain('Other interpretations: "blur"');
+    expect(text).toContain('You could try: "meaning of word"');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  RecordingTransport,
+  ReplayTransport,
+  fixtureKey,
+} from '../src/transport';
+import { WolframFixtureFile } from '../src/types';
+
+describe('Wolfram transports', () => {
+  let dir: string;
+  let fixturePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wolfram-fixtures-'));
+    fixturePath = path.join(dir, 'recorded.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('fixtureKey', () => {
+    it('should ignore param order, undefined values and the appid', () => {
+      expect(
+        fixtureKey('/short', { units: 'metric', input: '2+2', appid: 'secret', location: undefined }),
+      ).toBe(fixtureKey('/short', { input: '2+2', units: 'metric' }));
+    });
+  });
+
+  describe('RecordingTransport', () => {
+    it('should write exchanges with the appid redacted', async () => {
+      const inner = {
+        get: vi.fn().mockResolvedValue({ status: 200, data: '4', headers: { 'content-type': 'text/plain' } }),
+      };
+      const recorder = new RecordingTransport(inner, fixturePath);
+
+      await recorder.get('/short', { params: { appid: 'secret', input: '2+2' } });
+      await recorder.flush();
+
+      const contents = await fs.readFile(fixturePath, 'utf8');
+      expect(contents).not.toContain('secret');
+
+      const fixture: WolframFixtureFile = JSON.parse(contents);
+      expect(fixture.exchanges).toHaveLength(1);
+      expect(fixture.exchanges[0].request.params).toEqual({ input: '2+2' });
+      expect(fixture.exchanges[0].response.encoding).toBe('text');
+    });
+
+    it('should record HTTP errors and rethrow them', async () => {
+      const error = Object.assign(new Error('Request failed with status code 501'), {
+        response: { status: 501, data: 'Wolfram|Alpha did not understand your input' },
+      });
+      const inner = { get: vi.fn().mockRejectedValue(error) };
+      const recorder = new RecordingTransport(inner, fixturePath);
+
+      await expect(recorder.get('/short', { params: { input: 'blorfle' } })).rejects.toBe(error);
+      expect(recorder.getExchanges()[0].response.status).toBe(501);
+    });
+  });
+
+  describe('ReplayTransport', () => {
+    it('should replay recorded binary, text and error responses', async () => {
+      const inner = {
+        get: vi
+          .fn()
+          .mockResolvedValueOnce({ status: 200, data: Buffer.from('GIF89a') })
+          .mockRejectedValueOnce({ response: { status: 429, data: 'Too many requests' } }),
+      };
+      const recorder = new RecordingTransport(inner, fixturePath);
+      await recorder.get('/simple', { params: { input: 'plot sin(x)' }, responseType: 'arraybuffer' });
+      await recorder.get('/short', { params: { input: '2+2' } }).catch(() => undefined);
+      await recorder.flush();
+
+      const replay = await ReplayTransport.fromFile(fixturePath);
+
+      const image = await replay.get('/simple', { params: { appid: 'other-id', input: 'plot sin(x)' } });
+      expect(Buffer.from(image.data).toString()).toBe('GIF89a');
+
+      await expect(replay.get('/short', { params: { input: '2+2' } })).rejects.toMatchObject({
+        response: { status: 429 },
+      });
+    });
+
+    it('should serve repeated requests in recording order', async () => {
+      const replay = new ReplayTransport({
+        version: 1,
+        exchanges: [
+          { request: { method: 'GET', url: '/short', params: { input: 'x' } }, response: { status: 503, data: '', encoding: 'text' } },
+          { request: { method: 'GET', url: '/short', params: { input: 'x' } }, response: { status: 200, data: 'ok', encoding: 'text' } },
+        ],
+      });
+
+      await expect(replay.get('/short', { params: { input: 'x' } })).rejects.toThrow('503');
+      await expect(replay.get('/short', { params: { input: 'x' } })).resolves.toMatchObject({ data: 'ok' });
+      await expect(replay.get('/short', { params: { input: 'x' } })).resolves.toMatchObject({ data: 'ok' });
+    });
+
+    it('should fail loudly for requests that were never recorded', async () => {
+      const replay = new ReplayTransport({ version: 1, exchanges: [] });
+
+      await expect(replay.get('/query', { params: { input: 'unknown' } })).rejects.toThrow(
+        'No recorded Wolfram fixture for GET /query?input=unknown',
+      );
+    });
+  });
+});
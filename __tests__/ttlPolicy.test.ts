@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { WolframTtlPolicy } from '../src/ttlPolicy';
+import { WolframPod } from '../src/types';
+
+const pod = (id: string, scanner: string): WolframPod => ({
+  title: id,
+  id,
+  scanner,
+  position: 100,
+  error: false,
+  numsubpods: 0,
+  subpods: [],
+});
+
+describe('WolframTtlPolicy', () => {
+  const policy = new WolframTtlPolicy([], 3600000);
+
+  it('should give weather results a short TTL', () => {
+    const ttl = policy.resolve({
+      method: 'query',
+      input: 'weather in Paris',
+      pods: [pod('Input', 'Identity'), pod('WeatherForecast:WeatherData', 'Weather')],
+    });
+
+    expect(ttl).toBe(10 * 60 * 1000);
+  });
+
+  it('should give math results a long TTL', () => {
+    expect(policy.resolve({ method: 'solveMath', input: 'x + 3 = 5' })).toBe(30 * 24 * 3600000);
+    expect(
+      policy.resolve({ method: 'query', input: 'derivative of sin(x)', pods: [pod('Input', 'Derivative')] }),
+    ).toBe(30 * 24 * 3600000);
+  });
+
+  it('should treat "now" style inputs as volatile even for math scanners', () => {
+    expect(
+      policy.resolve({ method: 'query', input: 'what time is it now', pods: [pod('Result', 'Arithmetic')] }),
+    ).toBe(60 * 1000);
+  });
+
+  it('should fall back to the default TTL', () => {
+    expect(policy.resolve({ method: 'getShortAnswer', input: 'height of Mount Everest' })).toBe(3600000);
+  });
+
+  it('should let custom rules override the built-in ones', () => {
+    const custom = new WolframTtlPolicy([
+      { name: 'no-weather', scanner: 'Weather', ttl: 'never' },
+      { method: 'getFacts', input: '^jupiter$', ttl: 5000 },
+    ]);
+
+    expect(custom.resolve({ method: 'query', input: 'weather', pods: [pod('Result', 'Weather')] })).toBe(0);
+    expect(custom.resolve({ method: 'getFacts', input: 'Jupiter' })).toBe(5000);
+    expect(custom.resolve({ method: 'getFacts', input: 'Jupiter moons' })).toBe(3600000);
+  });
+});
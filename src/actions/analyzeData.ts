@@ -10,7 +10,7 @@ import {
   ModelType,
   ActionExample,
 } from "@elizaos/core";
-import { ActionResult } from "../types";
+import { ActionResult, describeActionError } from "../types";
 import { WolframService, WOLFRAM_SERVICE_NAME } from "../service";
 
 const analyzeDataTemplate = `
@@ -108,7 +108,9 @@ export const wolframAnalyzeDataAction: Action = {
       } as Content);
 
       // Analyze the data
-      const analysis = await service.analyzeData(data);
+      const analysis = await service.analyzeData(data, {
+        action: "WOLFRAM_ANALYZE_DATA",
+      });
 
       // Format the response
       let formattedAnalysis = "Data Analysis Results:\n\n";
@@ -151,7 +153,10 @@ export const wolframAnalyzeDataAction: Action = {
       };
     } catch (error) {
       logger.error("Error analyzing data:", error);
-      const errorMessage = `Failed to analyze data: ${error instanceof Error ? error.message : String(error)}`;
+      const { message: errorMessage, error: reason } = describeActionError(
+        error,
+        "Failed to analyze data",
+      );
 
       await callback?.({
         text: errorMessage,
@@ -161,7 +166,7 @@ export const wolframAnalyzeDataAction: Action = {
       return {
         success: false,
         text: errorMessage,
-        error: error instanceof Error ? error : new Error(String(error)),
+        error: reason,
       };
     }
   },
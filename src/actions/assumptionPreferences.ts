@@ -0,0 +1,197 @@
+import {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+  Content,
+  logger,
+  composePromptFromState,
+  ModelType,
+  ActionExample,
+} from "@elizaos/core";
+import { ActionResult, describeActionError } from "../types";
+import { WolframService, WOLFRAM_SERVICE_NAME } from "../service";
+
+const assumptionPreferencesTemplate = `
+You are helping the user manage the interpretations Wolfram Alpha remembers for them
+(e.g. "Mercury" as the chemical element, "football" as soccer).
+
+Recent conversation context:
+{{recentMessages}}
+
+Decide what the user wants:
+- LIST to see the remembered interpretations
+- RESET to forget all of them
+- RESET <word> to forget the interpretation of one word
+
+Return ONLY one of those, nothing else. Examples:
+- "LIST"
+- "RESET"
+- "RESET Mercury"
+`;
+
+export const wolframAssumptionPreferencesAction: Action = {
+  name: "WOLFRAM_ASSUMPTION_PREFERENCES",
+  description:
+    "List or forget the interpretations (e.g. Mercury as the element) Wolfram Alpha remembers from earlier corrections",
+
+  validate: async (runtime: IAgentRuntime, _message: Memory) => {
+    const service = runtime.getService(WOLFRAM_SERVICE_NAME);
+    return service instanceof WolframService;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    _options: any,
+    callback?: HandlerCallback,
+  ): Promise<ActionResult> => {
+    try {
+      const service = runtime.getService(
+        WOLFRAM_SERVICE_NAME,
+      ) as unknown as WolframService;
+
+      if (!service) {
+        logger.error("Wolfram service not found");
+        const errorMessage =
+          "Wolfram service is not available. Please check the configuration.";
+
+        await callback?.({
+          text: errorMessage,
+          error: true,
+        } as Content);
+
+        return {
+          success: false,
+          text: errorMessage,
+          error: "Service not available",
+        };
+      }
+
+      const scope = service.preferenceScope(message);
+      if (!scope) {
+        const errorMessage =
+          "I can't tell whose remembered interpretations to use here.";
+
+        await callback?.({
+          text: errorMessage,
+          error: true,
+        } as Content);
+
+        return {
+          success: false,
+          text: errorMessage,
+        };
+      }
+
+      state = state || (await runtime.composeState(message));
+
+      const commandPrompt = composePromptFromState({
+        state,
+        template: assumptionPreferencesTemplate,
+      });
+
+      const command = (
+        await runtime.useModel(ModelType.TEXT_SMALL, {
+          prompt: commandPrompt,
+        })
+      ).trim();
+
+      const reset = command.match(/^RESET\b\s*(.*)$/i);
+      if (reset) {
+        const word = reset[1].replace(/^["']|["']$/g, "").trim() || undefined;
+        const removed = await service.resetAssumptionPreferences(scope, word);
+        const text =
+          removed === 0
+            ? word
+              ? `I had no remembered interpretation of "${word}".`
+              : "There were no remembered interpretations to forget."
+            : word
+              ? `Forgot how to interpret "${word}".`
+              : `Forgot ${removed} remembered interpretation${removed === 1 ? "" : "s"}.`;
+
+        await callback?.({ text } as Content);
+
+        return {
+          success: true,
+          text,
+          data: {
+            actionName: "WOLFRAM_ASSUMPTION_PREFERENCES",
+            reset: word ?? "all",
+            removed,
+          },
+        };
+      }
+
+      const preferences = await service.listAssumptionPreferences(scope);
+      const text =
+        preferences.length === 0
+          ? 'I don\'t remember any interpretations yet. Correct one with e.g. "I meant the chemical element".'
+          : [
+              "Remembered interpretations:",
+              ...preferences.map(
+                (preference) => `- "${preference.word}" as ${preference.desc}`,
+              ),
+            ].join("\n");
+
+      await callback?.({ text } as Content);
+
+      return {
+        success: true,
+        text,
+        data: {
+          actionName: "WOLFRAM_ASSUMPTION_PREFERENCES",
+          preferences,
+        },
+      };
+    } catch (error) {
+      logger.error("Error managing Wolfram assumption preferences:", error);
+      const { message: errorMessage, error: reason } = describeActionError(
+        error,
+        "Failed to manage remembered interpretations",
+      );
+
+      await callback?.({
+        text: errorMessage,
+        error: true,
+      } as Content);
+
+      return {
+        success: false,
+        text: errorMessage,
+        error: reason,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Which interpretations do you remember for me?" },
+      } as ActionExample,
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Here is what I remember.",
+          actions: ["WOLFRAM_ASSUMPTION_PREFERENCES"],
+        },
+      } as ActionExample,
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Forget what I said about Mercury" },
+      } as ActionExample,
+      {
+        name: "{{agent}}",
+        content: {
+          text: "I'll forget how you wanted Mercury interpreted.",
+          actions: ["WOLFRAM_ASSUMPTION_PREFERENCES"],
+        },
+      } as ActionExample,
+    ],
+  ],
+};
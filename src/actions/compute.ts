@@ -10,8 +10,9 @@ import {
   ModelType,
   ActionExample,
 } from "@elizaos/core";
-import { ActionResult } from "../types";
+import { ActionResult, describeActionError } from "../types";
 import { WolframService, WOLFRAM_SERVICE_NAME } from "../service";
+import { formatSuggestions } from "../suggestions";
 
 const computeTemplate = `
 You are helping the user with a mathematical computation using Wolfram Alpha.
@@ -108,7 +109,34 @@ export const wolframComputeAction: Action = {
       } as Content);
 
       // Execute the computation
-      const result = await service.compute(expression);
+      const computed = await service.computeWithSuggestions(expression, {
+        action: "WOLFRAM_COMPUTE",
+      });
+
+      if (!computed.success && computed.notUnderstood) {
+        const errorMessage = formatSuggestions(
+          expression,
+          computed.suggestions,
+        );
+
+        await callback?.({
+          text: errorMessage,
+          error: true,
+        } as Content);
+
+        return {
+          success: false,
+          text: errorMessage,
+          error: "INPUT_NOT_UNDERSTOOD",
+          data: {
+            actionName: "WOLFRAM_COMPUTE",
+            expression,
+            suggestions: computed.suggestions,
+          },
+        };
+      }
+
+      const result = computed.answer || "Could not compute expression";
 
       // Send the result
       await callback?.({
@@ -138,7 +166,10 @@ export const wolframComputeAction: Action = {
       };
     } catch (error) {
       logger.error("Error computing expression:", error);
-      const errorMessage = `Failed to compute: ${error instanceof Error ? error.message : String(error)}`;
+      const { message: errorMessage, error: reason } = describeActionError(
+        error,
+        "Failed to compute",
+      );
 
       await callback?.({
         text: errorMessage,
@@ -148,7 +179,7 @@ export const wolframComputeAction: Action = {
       return {
         success: false,
         text: errorMessage,
-        error: error instanceof Error ? error : new Error(String(error)),
+        error: reason,
       };
     }
   },
@@ -8,7 +8,7 @@ import {
   logger,
   ActionExample,
 } from "@elizaos/core";
-import { ActionResult } from "../types";
+import { ActionResult, describeActionError } from "../types";
 import { WolframService, WOLFRAM_SERVICE_NAME } from "../service";
 
 export const wolframConversationalAction: Action = {
@@ -58,7 +58,6 @@ export const wolframConversationalAction: Action = {
       const previousQuery = context?.getPreviousResult?.("WOLFRAM_QUERY");
 
       const userInput = message.content.text || "";
-      const userId = message.userId;
 
       if (!userInput) {
         const errorMessage =
@@ -83,7 +82,11 @@ export const wolframConversationalAction: Action = {
       } as Content);
 
       // Use conversational API for context-aware responses
-      const result = await service.conversationalQuery(userInput, userId);
+      const result = await service.conversationalQuery(
+        userInput,
+        service.conversationKey(message),
+        { action: "WOLFRAM_CONVERSATIONAL" },
+      );
 
       if (result.error) {
         const errorMessage = `Conversation error: ${result.error}`;
@@ -133,7 +136,10 @@ export const wolframConversationalAction: Action = {
       };
     } catch (error) {
       logger.error("Error in conversational query:", error);
-      const errorMessage = `Failed to process conversational query: ${error instanceof Error ? error.message : String(error)}`;
+      const { message: errorMessage, error: reason } = describeActionError(
+        error,
+        "Failed to process conversational query",
+      );
 
       await callback?.({
         text: errorMessage,
@@ -143,7 +149,7 @@ export const wolframConversationalAction: Action = {
       return {
         success: false,
         text: errorMessage,
-        error: error instanceof Error ? error : new Error(String(error)),
+        error: reason,
       };
     }
   },
@@ -0,0 +1,240 @@
+import {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+  Content,
+  logger,
+  composePromptFromState,
+  ModelType,
+  ActionExample,
+} from "@elizaos/core";
+import { ActionResult, describeActionError } from "../types";
+import { WolframService, WOLFRAM_SERVICE_NAME } from "../service";
+import { findAssumption } from "../assumptions";
+
+const disambiguateTemplate = `
+You are helping the user correct how Wolfram Alpha interpreted their question.
+
+Recent conversation context:
+{{recentMessages}}
+
+Wolfram Alpha interpreted "{{lastInput}}" as {{currentMeaning}}. It can also be read as:
+{{assumptions}}
+
+Pick the reading the user says they meant.
+Return ONLY the description exactly as listed, or NONE if none fits.
+`;
+
+export const wolframDisambiguateAction: Action = {
+  name: "WOLFRAM_DISAMBIGUATE",
+  description:
+    'Re-run the last Wolfram Alpha query with a different interpretation, e.g. "I meant the chemical element" after asking about Mercury',
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const service = runtime.getService(WOLFRAM_SERVICE_NAME);
+    return (
+      service instanceof WolframService &&
+      !!service.getLastResult(message.roomId)
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    _options: any,
+    callback?: HandlerCallback,
+  ): Promise<ActionResult> => {
+    try {
+      const service = runtime.getService(
+        WOLFRAM_SERVICE_NAME,
+      ) as unknown as WolframService;
+
+      if (!service) {
+        logger.error("Wolfram service not found");
+        const errorMessage =
+          "Wolfram service is not available. Please check the configuration.";
+
+        await callback?.({
+          text: errorMessage,
+          error: true,
+        } as Content);
+
+        return {
+          success: false,
+          text: errorMessage,
+          error: "Service not available",
+        };
+      }
+
+      const last = service.getLastResult(message.roomId);
+      const assumptions = last ? service.listAssumptions(last.result) : [];
+      const alternatives = assumptions.filter((option) => !option.current);
+
+      if (!last || alternatives.length === 0) {
+        const errorMessage = last
+          ? `Wolfram Alpha had no other interpretations of "${last.input}".`
+          : "There is no earlier Wolfram Alpha result to reinterpret. Ask a question first.";
+
+        await callback?.({
+          text: errorMessage,
+          error: true,
+        } as Content);
+
+        return {
+          success: false,
+          text: errorMessage,
+        };
+      }
+
+      // Let the model map the correction onto one of the interpretations
+      state = state || (await runtime.composeState(message));
+
+      const current = assumptions
+        .filter((option) => option.current)
+        .map((option) => `${option.desc} (for "${option.word ?? last.input}")`)
+        .join(" and ");
+
+      const disambiguatePrompt = composePromptFromState({
+        state,
+        template: disambiguateTemplate
+          .replace("{{lastInput}}", last.input)
+          .replace("{{currentMeaning}}", current)
+          .replace(
+            "{{assumptions}}",
+            alternatives
+              .map(
+                (option) =>
+                  `- ${option.desc} (for "${option.word ?? last.input}")`,
+              )
+              .join("\n"),
+          ),
+      });
+
+      const choice = (
+        await runtime.useModel(ModelType.TEXT_SMALL, {
+          prompt: disambiguatePrompt,
+        })
+      ).trim();
+
+      const assumption =
+        findAssumption(assumptions, choice) ||
+        findAssumption(assumptions, message.content.text || "");
+
+      if (!assumption || assumption.current) {
+        const errorMessage = `"${last.input}" can also mean: ${alternatives
+          .map((option) => option.desc)
+          .join(", ")}. Which one did you mean?`;
+
+        await callback?.({
+          text: errorMessage,
+          error: true,
+        } as Content);
+
+        return {
+          success: false,
+          text: errorMessage,
+          data: {
+            actionName: "WOLFRAM_DISAMBIGUATE",
+            assumptions,
+          },
+        };
+      }
+
+      await callback?.({
+        text: `Looking up "${last.input}" as ${assumption.desc}...`,
+      } as Content);
+
+      const options = { ...last.options, assumption: assumption.input };
+      const result = await service.queryWithAssumption(
+        last.input,
+        assumption,
+        last.options,
+        { action: "WOLFRAM_DISAMBIGUATE" },
+      );
+      service.rememberResult(message.roomId, last.input, result, options);
+
+      // Later queries mentioning the same word get this reading too
+      const scope = service.preferenceScope(message);
+      if (scope) {
+        await service.rememberAssumption(scope, assumption);
+      }
+
+      const formattedResult = service.formatResult(result);
+
+      await callback?.({
+        text: formattedResult,
+        metadata: {
+          query: last.input,
+          assumption: assumption.desc,
+          source: "Wolfram Alpha",
+        },
+      } as Content);
+
+      return {
+        success: true,
+        text: formattedResult,
+        values: {
+          lastWolframQuery: last.input,
+          lastAssumption: assumption.desc,
+          lastQueryTime: Date.now(),
+        },
+        data: {
+          actionName: "WOLFRAM_DISAMBIGUATE",
+          query: last.input,
+          assumption,
+          result,
+          formattedResult,
+        },
+      };
+    } catch (error) {
+      logger.error("Error reinterpreting Wolfram query:", error);
+      const { message: errorMessage, error: reason } = describeActionError(
+        error,
+        "Failed to reinterpret the Wolfram Alpha query",
+      );
+
+      await callback?.({
+        text: errorMessage,
+        error: true,
+      } as Content);
+
+      return {
+        success: false,
+        text: errorMessage,
+        error: reason,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "No, I meant the chemical element" },
+      } as ActionExample,
+      {
+        name: "{{agent}}",
+        content: {
+          text: "I'll look it up as the chemical element instead.",
+          actions: ["WOLFRAM_DISAMBIGUATE"],
+        },
+      } as ActionExample,
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "I was asking about the city, not the country" },
+      } as ActionExample,
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Let me redo that for the city.",
+          actions: ["WOLFRAM_DISAMBIGUATE"],
+        },
+      } as ActionExample,
+    ],
+  ],
+};
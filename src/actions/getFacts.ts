@@ -10,7 +10,7 @@ import {
   ModelType,
   ActionExample,
 } from "@elizaos/core";
-import { ActionResult } from "../types";
+import { ActionResult, describeActionError } from "../types";
 import { WolframService, WOLFRAM_SERVICE_NAME } from "../service";
 
 const getFactsTemplate = `
@@ -107,7 +107,9 @@ export const wolframGetFactsAction: Action = {
       } as Content);
 
       // Get facts
-      const facts = await service.getFacts(topic);
+      const facts = await service.getFacts(topic, {
+        action: "WOLFRAM_GET_FACTS",
+      });
 
       // Format the response
       const formattedFacts = facts.join("\n\n");
@@ -142,7 +144,10 @@ export const wolframGetFactsAction: Action = {
       };
     } catch (error) {
       logger.error("Error getting facts:", error);
-      const errorMessage = `Failed to get facts: ${error instanceof Error ? error.message : String(error)}`;
+      const { message: errorMessage, error: reason } = describeActionError(
+        error,
+        "Failed to get facts",
+      );
 
       await callback?.({
         text: errorMessage,
@@ -152,7 +157,7 @@ export const wolframGetFactsAction: Action = {
       return {
         success: false,
         text: errorMessage,
-        error: error instanceof Error ? error : new Error(String(error)),
+        error: reason,
       };
     }
   },
@@ -0,0 +1,240 @@
+import {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+  Content,
+  logger,
+  composePromptFromState,
+  ModelType,
+  ActionExample,
+} from "@elizaos/core";
+import { ActionResult, describeActionError } from "../types";
+import { WolframService, WOLFRAM_SERVICE_NAME } from "../service";
+import { findPodState, withPodState } from "../podStates";
+
+const podStateTemplate = `
+You are helping the user expand a previous Wolfram Alpha result.
+
+Recent conversation context:
+{{recentMessages}}
+
+The result for "{{lastInput}}" offers these options:
+{{podStates}}
+
+Pick the option the user is asking for, such as "More digits", "Exact form" or "Step-by-step solution".
+Return ONLY the option name exactly as listed, or NONE if no option fits.
+`;
+
+export const wolframPodStateAction: Action = {
+  name: "WOLFRAM_POD_STATE",
+  description:
+    'Expand the last Wolfram Alpha result in this conversation, e.g. "show more digits", "show the exact form" or "show steps"',
+
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const service = runtime.getService(WOLFRAM_SERVICE_NAME);
+    return (
+      service instanceof WolframService &&
+      !!service.getLastResult(message.roomId)
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    _options: any,
+    callback?: HandlerCallback,
+  ): Promise<ActionResult> => {
+    try {
+      const service = runtime.getService(
+        WOLFRAM_SERVICE_NAME,
+      ) as unknown as WolframService;
+
+      if (!service) {
+        logger.error("Wolfram service not found");
+        const errorMessage =
+          "Wolfram service is not available. Please check the configuration.";
+
+        await callback?.({
+          text: errorMessage,
+          error: true,
+        } as Content);
+
+        return {
+          success: false,
+          text: errorMessage,
+          error: "Service not available",
+        };
+      }
+
+      const last = service.getLastResult(message.roomId);
+      const podStates = last ? service.listPodStates(last.result) : [];
+
+      if (!last || podStates.length === 0) {
+        const errorMessage = last
+          ? `The result for "${last.input}" has no other forms to show.`
+          : "There is no earlier Wolfram Alpha result to expand. Ask a question first.";
+
+        await callback?.({
+          text: errorMessage,
+          error: true,
+        } as Content);
+
+        return {
+          success: false,
+          text: errorMessage,
+        };
+      }
+
+      // Let the model map the request onto one of the offered states
+      state = state || (await runtime.composeState(message));
+
+      const podStatePrompt = composePromptFromState({
+        state,
+        template: podStateTemplate
+          .replace("{{lastInput}}", last.input)
+          .replace(
+            "{{podStates}}",
+            podStates
+              .map((option) => `- ${option.name} (${option.podTitle})`)
+              .join("\n"),
+          ),
+      });
+
+      const choice = (
+        await runtime.useModel(ModelType.TEXT_SMALL, {
+          prompt: podStatePrompt,
+        })
+      ).trim();
+
+      const podState =
+        findPodState(podStates, choice) ||
+        findPodState(podStates, message.content.text || "");
+
+      if (!podState) {
+        const errorMessage = `I can show these for "${last.input}": ${podStates
+          .map((option) => option.name)
+          .join(", ")}.`;
+
+        await callback?.({
+          text: errorMessage,
+          error: true,
+        } as Content);
+
+        return {
+          success: false,
+          text: errorMessage,
+          data: {
+            actionName: "WOLFRAM_POD_STATE",
+            podStates,
+          },
+        };
+      }
+
+      await callback?.({
+        text: `Getting "${podState.name}" for: "${last.input}"...`,
+      } as Content);
+
+      const options = withPodState(last.options, podState.input);
+      const result = await service.queryWithPodState(
+        last.input,
+        podState,
+        last.options,
+        { action: "WOLFRAM_POD_STATE" },
+      );
+      service.rememberResult(message.roomId, last.input, result, options);
+
+      // Show the expanded pod alone when Wolfram returned it
+      const pod = result.pods?.find((p) => p.id === podState.podId);
+      const formattedResult =
+        (pod && service.formatPod(pod)) || service.formatResult(result);
+
+      await callback?.({
+        text: formattedResult,
+        metadata: {
+          query: last.input,
+          podState: podState.name,
+          source: "Wolfram Alpha",
+        },
+      } as Content);
+
+      return {
+        success: true,
+        text: formattedResult,
+        values: {
+          lastWolframQuery: last.input,
+          lastPodState: podState.name,
+          lastQueryTime: Date.now(),
+        },
+        data: {
+          actionName: "WOLFRAM_POD_STATE",
+          query: last.input,
+          podState,
+          result,
+          formattedResult,
+        },
+      };
+    } catch (error) {
+      logger.error("Error applying Wolfram pod state:", error);
+      const { message: errorMessage, error: reason } = describeActionError(
+        error,
+        "Failed to expand the Wolfram Alpha result",
+      );
+
+      await callback?.({
+        text: errorMessage,
+        error: true,
+      } as Content);
+
+      return {
+        success: false,
+        text: errorMessage,
+        error: reason,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Show more digits" },
+      } as ActionExample,
+      {
+        name: "{{agent}}",
+        content: {
+          text: "I'll ask Wolfram Alpha for more digits.",
+          actions: ["WOLFRAM_POD_STATE"],
+        },
+      } as ActionExample,
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Can you give me the exact form instead?" },
+      } as ActionExample,
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Let me get the exact form of that result.",
+          actions: ["WOLFRAM_POD_STATE"],
+        },
+      } as ActionExample,
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Show the steps" },
+      } as ActionExample,
+      {
+        name: "{{agent}}",
+        content: {
+          text: "I'll get the step-by-step solution.",
+          actions: ["WOLFRAM_POD_STATE"],
+        },
+      } as ActionExample,
+    ],
+  ],
+};
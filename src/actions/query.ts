@@ -10,7 +10,7 @@ import {
   ModelType,
   ActionExample,
 } from "@elizaos/core";
-import { ActionResult } from "../types";
+import { ActionResult, describeActionError } from "../types";
 import { WolframService, WOLFRAM_SERVICE_NAME } from "../service";
 
 const queryTemplate = `
@@ -99,8 +99,31 @@ export const wolframQueryAction: Action = {
         text: `Searching Wolfram Alpha for: "${query}"...`,
       } as Content);
 
-      // Execute the query
-      const result = await service.query(query);
+      // Execute the query; with WOLFRAM_ASYNC_PODS, pods that arrive after
+      // the answer follow as separate messages
+      const result = await service.query(
+        query,
+        {},
+        {
+          action: "WOLFRAM_QUERY",
+          preferenceScope: service.preferenceScope(message),
+          onPod: async (pod) => {
+            const text = service.formatPod(pod);
+            if (!text) return;
+            await callback?.({
+              text,
+              metadata: {
+                query,
+                podId: pod.id,
+                async: true,
+                source: "Wolfram Alpha",
+              },
+            } as Content);
+          },
+        },
+      );
+
+      service.rememberResult(message.roomId, query, result);
 
       // Format the response
       const formattedResult = service.formatResult(result);
@@ -137,7 +160,10 @@ export const wolframQueryAction: Action = {
       };
     } catch (error) {
       logger.error("Error executing Wolfram query:", error);
-      const errorMessage = `Failed to query Wolfram Alpha: ${error instanceof Error ? error.message : String(error)}`;
+      const { message: errorMessage, error: reason } = describeActionError(
+        error,
+        "Failed to query Wolfram Alpha",
+      );
 
       await callback?.({
         text: errorMessage,
@@ -147,7 +173,7 @@ export const wolframQueryAction: Action = {
       return {
         success: false,
         text: errorMessage,
-        error: error instanceof Error ? error : new Error(String(error)),
+        error: reason,
       };
     }
   },
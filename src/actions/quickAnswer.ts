@@ -10,8 +10,9 @@ import {
   ModelType,
   ActionExample,
 } from "@elizaos/core";
-import { ActionResult } from "../types";
+import { ActionResult, describeActionError } from "../types";
 import { WolframService, WOLFRAM_SERVICE_NAME } from "../service";
+import { formatSuggestions } from "../suggestions";
 
 const quickAnswerTemplate = `
 You are helping the user get a quick answer from Wolfram Alpha.
@@ -109,7 +110,29 @@ export const wolframQuickAnswerAction: Action = {
       } as Content);
 
       // Get quick answer
-      const result = await service.getShortAnswer(question);
+      const result = await service.quickAnswer(question, {
+        action: "WOLFRAM_QUICK_ANSWER",
+      });
+
+      if (!result.success && result.notUnderstood) {
+        const errorMessage = formatSuggestions(question, result.suggestions);
+
+        await callback?.({
+          text: errorMessage,
+          error: true,
+        } as Content);
+
+        return {
+          success: false,
+          text: errorMessage,
+          error: "INPUT_NOT_UNDERSTOOD",
+          data: {
+            actionName: "WOLFRAM_QUICK_ANSWER",
+            question,
+            suggestions: result.suggestions,
+          },
+        };
+      }
 
       if (!result.success || !result.answer) {
         const errorMessage = `Couldn't find a quick answer for: "${question}"`;
@@ -131,6 +154,7 @@ export const wolframQuickAnswerAction: Action = {
         metadata: {
           question,
           source: "Wolfram Alpha Quick Answer",
+          api: result.source,
         },
       } as Content);
 
@@ -153,7 +177,10 @@ export const wolframQuickAnswerAction: Action = {
       };
     } catch (error) {
       logger.error("Error getting quick answer:", error);
-      const errorMessage = `Failed to get quick answer: ${error instanceof Error ? error.message : String(error)}`;
+      const { message: errorMessage, error: reason } = describeActionError(
+        error,
+        "Failed to get quick answer",
+      );
 
       await callback?.({
         text: errorMessage,
@@ -163,7 +190,7 @@ export const wolframQuickAnswerAction: Action = {
       return {
         success: false,
         text: errorMessage,
-        error: error instanceof Error ? error : new Error(String(error)),
+        error: reason,
       };
     }
   },
@@ -0,0 +1,118 @@
+import {
+  Action,
+  IAgentRuntime,
+  Memory,
+  State,
+  HandlerCallback,
+  Content,
+  logger,
+  ActionExample,
+} from "@elizaos/core";
+import { ActionResult, describeActionError } from "../types";
+import { WolframService, WOLFRAM_SERVICE_NAME } from "../service";
+
+export const wolframResetConversationAction: Action = {
+  name: "WOLFRAM_RESET_CONVERSATION",
+  description:
+    "Forget the current Wolfram Alpha conversation so the next conversational question starts fresh",
+
+  validate: async (runtime: IAgentRuntime, _message: Memory) => {
+    const service = runtime.getService(WOLFRAM_SERVICE_NAME);
+    return service instanceof WolframService;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: any,
+    callback?: HandlerCallback,
+  ): Promise<ActionResult> => {
+    try {
+      const service = runtime.getService(
+        WOLFRAM_SERVICE_NAME,
+      ) as unknown as WolframService;
+
+      if (!service) {
+        logger.error("Wolfram service not found");
+        const errorMessage =
+          "Wolfram service is not available. Please check the configuration.";
+
+        await callback?.({
+          text: errorMessage,
+          error: true,
+        } as Content);
+
+        return {
+          success: false,
+          text: errorMessage,
+          error: "Service not available",
+        };
+      }
+
+      const sessionKey = service.conversationKey(message);
+      const cleared = await service.clearConversation(sessionKey);
+      const text = cleared
+        ? "Started over: my next Wolfram Alpha question won't build on the earlier ones."
+        : "There was no Wolfram Alpha conversation to reset here.";
+
+      await callback?.({ text } as Content);
+
+      return {
+        success: true,
+        text,
+        data: {
+          actionName: "WOLFRAM_RESET_CONVERSATION",
+          sessionKey,
+          cleared,
+        },
+      };
+    } catch (error) {
+      logger.error("Error resetting Wolfram conversation:", error);
+      const { message: errorMessage, error: reason } = describeActionError(
+        error,
+        "Failed to reset the conversation",
+      );
+
+      await callback?.({
+        text: errorMessage,
+        error: true,
+      } as Content);
+
+      return {
+        success: false,
+        text: errorMessage,
+        error: reason,
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Let's start a new topic with Wolfram" },
+      } as ActionExample,
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Starting a fresh Wolfram Alpha conversation.",
+          actions: ["WOLFRAM_RESET_CONVERSATION"],
+        },
+      } as ActionExample,
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Forget what we were talking about" },
+      } as ActionExample,
+      {
+        name: "{{agent}}",
+        content: {
+          text: "I'll reset our Wolfram Alpha conversation.",
+          actions: ["WOLFRAM_RESET_CONVERSATION"],
+        },
+      } as ActionExample,
+    ],
+  ],
+};
@@ -10,7 +10,7 @@ import {
   ModelType,
   ActionExample,
 } from "@elizaos/core";
-import { ActionResult } from "../types";
+import { ActionResult, describeActionError } from "../types";
 import { WolframService, WOLFRAM_SERVICE_NAME } from "../service";
 
 const solveTemplate = `
@@ -106,7 +106,9 @@ export const wolframSolveAction: Action = {
       } as Content);
 
       // Solve the equation
-      const solution = await service.solveMath(equation);
+      const solution = await service.solveMath(equation, {
+        action: "WOLFRAM_SOLVE",
+      });
 
       // Send the solution
       await callback?.({
@@ -137,7 +139,10 @@ export const wolframSolveAction: Action = {
       };
     } catch (error) {
       logger.error("Error solving equation:", error);
-      const errorMessage = `Failed to solve equation: ${error instanceof Error ? error.message : String(error)}`;
+      const { message: errorMessage, error: reason } = describeActionError(
+        error,
+        "Failed to solve equation",
+      );
 
       await callback?.({
         text: errorMessage,
@@ -147,7 +152,7 @@ export const wolframSolveAction: Action = {
       return {
         success: false,
         text: errorMessage,
-        error: error instanceof Error ? error : new Error(String(error)),
+        error: reason,
       };
     }
   },
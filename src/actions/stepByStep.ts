@@ -10,7 +10,7 @@ import {
   ModelType,
   ActionExample,
 } from "@elizaos/core";
-import { ActionResult } from "../types";
+import { ActionResult, describeActionError } from "../types";
 import { WolframService, WOLFRAM_SERVICE_NAME } from "../service";
 
 const stepByStepTemplate = `
@@ -108,7 +108,9 @@ export const wolframStepByStepAction: Action = {
       } as Content);
 
       // Get step-by-step solution
-      const steps = await service.getStepByStep(problem);
+      const steps = await service.getStepByStep(problem, {
+        action: "WOLFRAM_STEP_BY_STEP",
+      });
 
       // Format the response
       const formattedSteps = steps
@@ -146,7 +148,10 @@ export const wolframStepByStepAction: Action = {
       };
     } catch (error) {
       logger.error("Error getting step-by-step solution:", error);
-      const errorMessage = `Failed to get step-by-step solution: ${error instanceof Error ? error.message : String(error)}`;
+      const { message: errorMessage, error: reason } = describeActionError(
+        error,
+        "Failed to get step-by-step solution",
+      );
 
       await callback?.({
         text: errorMessage,
@@ -156,7 +161,7 @@ export const wolframStepByStepAction: Action = {
       return {
         success: false,
         text: errorMessage,
-        error: error instanceof Error ? error : new Error(String(error)),
+        error: reason,
       };
     }
   },
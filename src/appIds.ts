@@ -0,0 +1,163 @@
+import { logger } from "@elizaos/core";
+import { WolframConfig } from "./environment";
+import { hashAppId, WolframQuotaTracker } from "./quota";
+import {
+  WolframAppIdStats,
+  WolframAppIdStrategy,
+  WolframError,
+  WolframQuotaUsage,
+} from "./types";
+
+export const DEFAULT_APP_ID_COOLDOWN_MS = 60 * 60 * 1000;
+
+interface AppIdState {
+  requests: number;
+  failures: number;
+  lastError?: string;
+  coolingDownUntil?: number;
+}
+
+/**
+ * The App IDs a service may use. Picks one per request, round-robin or by
+ * remaining monthly quota, and sets an App ID aside for a cooldown after
+ * Wolfram rejects it or its quota runs out.
+ */
+export class WolframAppIdPool {
+  readonly appIds: string[];
+  private states: Map<string, AppIdState> = new Map();
+  private cursor = 0;
+
+  constructor(
+    appIds: string[],
+    readonly strategy: WolframAppIdStrategy = "round-robin",
+    readonly cooldownMs: number = DEFAULT_APP_ID_COOLDOWN_MS,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.appIds = [...new Set(appIds.filter(Boolean))];
+    for (const appId of this.appIds) {
+      this.states.set(appId, { requests: 0, failures: 0 });
+    }
+  }
+
+  get size(): number {
+    return this.appIds.length;
+  }
+
+  /**
+   * Next App ID to use, skipping those that already failed this request.
+   * App IDs in their cooldown are only used when nothing else is left.
+   */
+  async select(
+    exclude: Set<string>,
+    quota: WolframQuotaTracker,
+  ): Promise<string | undefined> {
+    const candidates = this.appIds.filter((appId) => !exclude.has(appId));
+    if (candidates.length === 0) return undefined;
+
+    const now = this.now();
+    const ready = candidates.filter(
+      (appId) => (this.states.get(appId)!.coolingDownUntil ?? 0) <= now,
+    );
+
+    let appId: string;
+    if (ready.length === 0) {
+      // Everything is cooling down: try the one that has waited longest
+      appId = candidates.reduce((a, b) =>
+        this.states.get(b)!.coolingDownUntil! <
+        this.states.get(a)!.coolingDownUntil!
+          ? b
+          : a,
+      );
+    } else if (this.strategy === "quota" && ready.length > 1) {
+      const usage = await Promise.all(
+        ready.map((candidate) => quota.usage(candidate)),
+      );
+      // No limit means no shortage
+      const remaining = usage.map((entry) => entry.remaining ?? Infinity);
+      const most = Math.max(...remaining);
+      // Take turns among equally good App IDs, e.g. when none has a limit
+      appId = this.nextInTurn(
+        ready.filter((_, index) => remaining[index] === most),
+      );
+    } else {
+      appId = this.nextInTurn(ready);
+    }
+
+    this.states.get(appId)!.requests += 1;
+    return appId;
+  }
+
+  /**
+   * Whether an App ID outside `exclude` is left to fail over to
+   */
+  hasAlternative(exclude: Set<string>): boolean {
+    return this.appIds.some((appId) => !exclude.has(appId));
+  }
+
+  recordSuccess(appId: string): void {
+    const state = this.states.get(appId);
+    if (state?.coolingDownUntil) {
+      logger.log(`✅ Wolfram App ID ${hashAppId(appId)} is usable again`);
+      state.coolingDownUntil = undefined;
+    }
+  }
+
+  recordFailure(appId: string, error: WolframError): void {
+    const state = this.states.get(appId);
+    if (!state) return;
+    state.failures += 1;
+    state.lastError = error.code;
+    state.coolingDownUntil = this.now() + this.cooldownMs;
+    logger.warn(
+      `⚠️ Setting Wolfram App ID ${hashAppId(appId)} aside for ${this.cooldownMs}ms (${error.code})`,
+    );
+  }
+
+  getStats(usage: WolframQuotaUsage[] = []): WolframAppIdStats[] {
+    const now = this.now();
+    return this.appIds.map((appId) => {
+      const state = this.states.get(appId)!;
+      const appIdHash = hashAppId(appId);
+      return {
+        appIdHash,
+        requests: state.requests,
+        failures: state.failures,
+        lastError: state.lastError,
+        coolingDownUntil:
+          (state.coolingDownUntil ?? 0) > now
+            ? state.coolingDownUntil
+            : undefined,
+        quota: usage.find((entry) => entry.appIdHash === appIdHash),
+      };
+    });
+  }
+
+  /**
+   * Round-robin over the full list, so an App ID coming back from its
+   * cooldown gets its turn in the usual order
+   */
+  private nextInTurn(pool: string[]): string {
+    for (let step = 0; step < this.appIds.length; step++) {
+      const appId = this.appIds[(this.cursor + step) % this.appIds.length];
+      if (pool.includes(appId)) {
+        this.cursor = (this.appIds.indexOf(appId) + 1) % this.appIds.length;
+        return appId;
+      }
+    }
+    return pool[0];
+  }
+}
+
+/**
+ * Builds the App ID pool from WOLFRAM_APP_ID and WOLFRAM_APP_IDS
+ */
+export function createAppIdPool(config: WolframConfig): WolframAppIdPool {
+  return new WolframAppIdPool(
+    [
+      config.WOLFRAM_APP_ID,
+      ...(config.WOLFRAM_APP_IDS ?? []).map((entry) => entry.appId),
+    ],
+    config.WOLFRAM_APP_ID_STRATEGY,
+    config.WOLFRAM_APP_ID_COOLDOWN,
+  );
+}
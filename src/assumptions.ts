@@ -0,0 +1,51 @@
+import {
+  WolframAlphaQueryResult,
+  WolframAssumption,
+  WolframAssumptionOption,
+} from "./types";
+import { findBestMatch } from "./matching";
+
+/**
+ * Lists every interpretation offered by a result's assumptions
+ */
+export function listAssumptions(
+  result: WolframAlphaQueryResult,
+): WolframAssumptionOption[] {
+  // The JSON API returns a single assumption as an object
+  const assumptions: WolframAssumption[] = Array.isArray(result.assumptions)
+    ? result.assumptions
+    : result.assumptions
+      ? [result.assumptions]
+      : [];
+
+  const options: WolframAssumptionOption[] = [];
+  for (const assumption of assumptions) {
+    (assumption.values || []).forEach((value, index) => {
+      if (!value.input) return;
+      options.push({
+        type: assumption.type,
+        word: value.word ?? assumption.word,
+        name: value.name,
+        desc: value.desc,
+        input: value.input,
+        current: index === 0,
+      });
+    });
+  }
+  return options;
+}
+
+/**
+ * Picks the interpretation a request such as "I meant the chemical element"
+ * refers to, among those Wolfram did not already use
+ */
+export function findAssumption(
+  options: WolframAssumptionOption[],
+  request: string,
+): WolframAssumptionOption | undefined {
+  const alternatives = options.filter((option) => !option.current);
+  return (
+    findBestMatch(alternatives, request, (option) => option.desc) ??
+    findBestMatch(options, request, (option) => option.desc)
+  );
+}
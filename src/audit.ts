@@ -0,0 +1,272 @@
+import { logger } from "@elizaos/core";
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { WolframConfig } from "./environment";
+import { encodeData, sanitizeParams } from "./transport";
+import { stableStringify } from "./normalize";
+import {
+  toWolframError,
+  WolframAuditContext,
+  WolframAuditEntry,
+  WolframAuditReplayOptions,
+  WolframAuditReplayResult,
+  WolframTransport,
+  WolframTransportRequest,
+  WolframTransportResponse,
+} from "./types";
+
+export const AUDIT_REDACTED = "[redacted]";
+
+const DEFAULT_AUDIT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_AUDIT_MAX_FILES = 5;
+
+/**
+ * Append-only JSONL file of exchanges with Wolfram. Once the file would
+ * grow past `maxBytes` it is renamed to `<file>.1` (older files shift to
+ * `.2`, `.3`, ...) and a new one is started; only `maxFiles` rotated
+ * files are kept.
+ */
+export class WolframAuditLog {
+  readonly sessionId: string = randomUUID();
+  private size: number | undefined;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly filePath: string,
+    readonly maxBytes: number = DEFAULT_AUDIT_MAX_BYTES,
+    readonly maxFiles: number = DEFAULT_AUDIT_MAX_FILES,
+  ) {}
+
+  record(entry: Omit<WolframAuditEntry, "sessionId">): void {
+    const line = JSON.stringify({ sessionId: this.sessionId, ...entry }) + "\n";
+
+    // Serialize writes so lines never interleave or race a rotation
+    this.pendingWrite = this.pendingWrite
+      .then(() => this.append(line))
+      .catch((error) => {
+        this.size = undefined;
+        logger.error("Failed to write Wolfram audit log:", error);
+      });
+  }
+
+  /**
+   * Waits for all pending lines to land on disk
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrite;
+  }
+
+  private async append(line: string): Promise<void> {
+    if (this.size === undefined) {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      this.size = await fs
+        .stat(this.filePath)
+        .then((stats) => stats.size)
+        .catch(() => 0);
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      await this.rotate();
+      this.size = 0;
+    }
+    await fs.appendFile(this.filePath, line, "utf8");
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    await fs.rm(`${this.filePath}.${this.maxFiles}`, { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      await fs
+        .rename(`${this.filePath}.${index}`, `${this.filePath}.${index + 1}`)
+        .catch(ignoreMissing);
+    }
+    await fs.rename(this.filePath, `${this.filePath}.1`);
+  }
+}
+
+/**
+ * Wraps another transport and writes every exchange to the audit log,
+ * together with the service call it was made for
+ */
+export class AuditTransport implements WolframTransport {
+  constructor(
+    readonly inner: WolframTransport,
+    readonly log: WolframAuditLog,
+    private readonly context: () => WolframAuditContext | undefined = () =>
+      undefined,
+  ) {}
+
+  async get<T = any>(
+    url: string,
+    config: WolframTransportRequest = {},
+  ): Promise<WolframTransportResponse<T>> {
+    const timestamp = new Date().toISOString();
+    const startedAt = Date.now();
+    const entry = {
+      timestamp,
+      ...this.context(),
+      request: {
+        url,
+        params: redactParams(config.params),
+        responseType: config.responseType,
+      },
+    };
+
+    try {
+      const response = await this.inner.get<T>(url, config);
+      this.log.record({
+        ...entry,
+        status: response.status,
+        latencyMs: Date.now() - startedAt,
+        response: encodeData(response.data),
+      });
+      return response;
+    } catch (error: any) {
+      this.log.record({
+        ...entry,
+        status: error?.response?.status,
+        latencyMs: Date.now() - startedAt,
+        response: error?.response ? encodeData(error.response.data) : undefined,
+        error: error?.message || String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Waits for pending audit lines, and for a wrapped RecordingTransport's
+   * fixture file
+   */
+  async flush(): Promise<void> {
+    await this.log.flush();
+    const inner = this.inner as { flush?: () => Promise<void> };
+    await inner.flush?.();
+  }
+}
+
+/**
+ * Builds the audit log configured by WOLFRAM_AUDIT_LOG_PATH, if any
+ */
+export function createAuditLog(
+  config: WolframConfig,
+): WolframAuditLog | undefined {
+  if (!config.WOLFRAM_AUDIT_LOG_PATH) return undefined;
+  logger.log(
+    `📝 Auditing Wolfram exchanges to ${config.WOLFRAM_AUDIT_LOG_PATH}`,
+  );
+  return new WolframAuditLog(
+    config.WOLFRAM_AUDIT_LOG_PATH,
+    config.WOLFRAM_AUDIT_LOG_MAX_BYTES,
+    config.WOLFRAM_AUDIT_LOG_MAX_FILES,
+  );
+}
+
+/**
+ * Reads an audit log and its rotated files, oldest entry first. Lines
+ * that do not parse (such as one cut off by a crash) are skipped.
+ */
+export async function readAuditLog(
+  filePath: string,
+  { sessionId }: { sessionId?: string } = {},
+): Promise<WolframAuditEntry[]> {
+  const directory = path.dirname(filePath);
+  const base = path.basename(filePath);
+  const rotated = (await fs.readdir(directory).catch(() => [] as string[]))
+    .map((name) => ({
+      name,
+      index: name.startsWith(`${base}.`)
+        ? Number(name.slice(base.length + 1))
+        : NaN,
+    }))
+    .filter((file) => Number.isInteger(file.index) && file.index > 0)
+    .sort((a, b) => b.index - a.index)
+    .map((file) => path.join(directory, file.name));
+
+  const entries: WolframAuditEntry[] = [];
+  for (const file of [...rotated, filePath]) {
+    let contents: string;
+    try {
+      contents = await fs.readFile(file, "utf8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") continue;
+      throw error;
+    }
+
+    contents.split("\n").forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        logger.warn(`Skipping unreadable audit log line ${file}:${index + 1}`);
+      }
+    });
+  }
+
+  return sessionId
+    ? entries.filter((entry) => entry.sessionId === sessionId)
+    : entries;
+}
+
+/**
+ * Sends logged requests again, one after another and in their logged
+ * order, and compares each answer with the logged one. Conversation
+ * follow-ups refer to conversations Wolfram may have forgotten since.
+ */
+export async function replayAuditLog(
+  entries: WolframAuditEntry[],
+  transport: WolframTransport,
+  { appId, headers, signal }: WolframAuditReplayOptions = {},
+): Promise<WolframAuditReplayResult[]> {
+  const results: WolframAuditReplayResult[] = [];
+
+  for (const entry of entries) {
+    const params = { ...entry.request.params };
+    if (params.appid === AUDIT_REDACTED) {
+      if (appId) params.appid = appId;
+      else delete params.appid;
+    }
+
+    const startedAt = Date.now();
+    let response: WolframTransportResponse | undefined;
+    let error: string | undefined;
+    try {
+      response = await transport.get(entry.request.url, {
+        params,
+        headers,
+        responseType: entry.request.responseType,
+        signal,
+      });
+    } catch (err: any) {
+      if (signal?.aborted) throw toWolframError(err, entry.request.url);
+      response = err?.response;
+      error = err?.message || String(err);
+    }
+
+    results.push({
+      entry,
+      status: response?.status,
+      latencyMs: Date.now() - startedAt,
+      response,
+      error,
+      changed:
+        response?.status !== entry.status ||
+        stableStringify(response ? encodeData(response.data) : undefined) !==
+          stableStringify(entry.response),
+    });
+  }
+
+  return results;
+}
+
+function redactParams(
+  params: Record<string, any> | undefined,
+): Record<string, any> {
+  const clean = sanitizeParams(params);
+  return params?.appid ? { ...clean, appid: AUDIT_REDACTED } : clean;
+}
+
+function ignoreMissing(error: any): void {
+  if (error?.code !== "ENOENT") throw error;
+}
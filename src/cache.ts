@@ -0,0 +1,369 @@
+import { logger } from "@elizaos/core";
+import { promises as fs } from "fs";
+import path from "path";
+import { WolframConfig } from "./environment";
+import {
+  WolframCacheBackend,
+  WolframCacheEntry,
+  WolframCacheLimits,
+  WolframCacheStore,
+  WolframStateStore,
+} from "./types";
+
+const CACHE_FILE_VERSION = 1;
+const PERSIST_DEBOUNCE_MS = 1000;
+const RUNTIME_INDEX_KEY = "wolfram:cache:index";
+const RUNTIME_ENTRY_PREFIX = "wolfram:cache:entry:";
+
+function isExpired(entry: WolframCacheEntry, now: number = Date.now()) {
+  return now - entry.timestamp > entry.ttl;
+}
+
+export const DEFAULT_CACHE_MAX_ENTRIES = 200;
+export const DEFAULT_CACHE_MAX_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Approximate in-memory footprint of a cached result, in bytes
+ */
+export function estimateEntrySize(result: any): number {
+  if (typeof result === "string") return Buffer.byteLength(result, "utf8");
+  try {
+    return Buffer.byteLength(JSON.stringify(result) ?? "", "utf8");
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Process-local LRU cache; entries are lost on restart. The persistent
+ * stores below extend it, so reads always stay synchronous and only writes
+ * go to the backing storage.
+ */
+export class MemoryCacheStore implements WolframCacheStore {
+  readonly backend: WolframCacheBackend = "memory";
+  readonly maxEntries: number;
+  readonly maxBytes: number;
+  evictions = 0;
+  // Map iteration order doubles as recency order: first key is least recent
+  protected entriesByKey: Map<string, WolframCacheEntry> = new Map();
+  private totalBytes = 0;
+
+  constructor(limits: WolframCacheLimits = {}) {
+    this.maxEntries = limits.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+    this.maxBytes = limits.maxBytes ?? DEFAULT_CACHE_MAX_BYTES;
+  }
+
+  get size(): number {
+    return this.entriesByKey.size;
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  async load(): Promise<void> {}
+
+  async flush(): Promise<void> {}
+
+  /**
+   * Returns an entry and marks it as most recently used
+   */
+  get(key: string): WolframCacheEntry | undefined {
+    const entry = this.entriesByKey.get(key);
+    if (entry) {
+      this.entriesByKey.delete(key);
+      this.entriesByKey.set(key, entry);
+    }
+    return entry;
+  }
+
+  has(key: string): boolean {
+    return this.entriesByKey.has(key);
+  }
+
+  /**
+   * Stores an entry, evicting least recently used ones to make room. An
+   * entry that alone exceeds the byte budget is refused, and evicts nothing.
+   */
+  set(key: string, entry: WolframCacheEntry): void {
+    const size = entry.size ?? estimateEntrySize(entry.result);
+    if (size > this.maxBytes) {
+      // Whatever was cached under the key is older than this answer
+      this.delete(key);
+      return;
+    }
+    this.insert(key, { ...entry, size });
+    this.onSet(key, entry);
+    this.evict();
+  }
+
+  delete(key: string): boolean {
+    const deleted = this.remove(key);
+    if (deleted) this.onDelete(key);
+    return deleted;
+  }
+
+  clear(): void {
+    const keys = [...this.entriesByKey.keys()];
+    this.entriesByKey.clear();
+    this.totalBytes = 0;
+    this.onClear(keys);
+  }
+
+  keys(): IterableIterator<string> {
+    return this.entriesByKey.keys();
+  }
+
+  entries(): IterableIterator<[string, WolframCacheEntry]> {
+    return this.entriesByKey.entries();
+  }
+
+  /**
+   * Adds an entry without notifying the backing storage
+   */
+  protected insert(key: string, entry: WolframCacheEntry): void {
+    this.remove(key);
+    const size = entry.size ?? estimateEntrySize(entry.result);
+    this.entriesByKey.set(key, { ...entry, size });
+    this.totalBytes += size;
+  }
+
+  /**
+   * Drops least recently used entries until both limits are met
+   */
+  protected evict(): void {
+    while (
+      this.entriesByKey.size > this.maxEntries ||
+      (this.totalBytes > this.maxBytes && this.entriesByKey.size > 0)
+    ) {
+      const oldestKey = this.entriesByKey.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.delete(oldestKey);
+      this.evictions += 1;
+    }
+  }
+
+  protected onSet(_key: string, _entry: WolframCacheEntry): void {}
+
+  protected onDelete(_key: string): void {}
+
+  protected onClear(_keys: string[]): void {}
+
+  private remove(key: string): boolean {
+    const existing = this.entriesByKey.get(key);
+    if (!existing) return false;
+    this.entriesByKey.delete(key);
+    this.totalBytes -= existing.size ?? 0;
+    return true;
+  }
+}
+
+/**
+ * Persists entries to a JSON file. Writes are debounced and the file is
+ * rewritten whole, which is fine at the plugin's cache sizes.
+ */
+export class FileCacheStore extends MemoryCacheStore {
+  readonly backend: WolframCacheBackend = "file";
+  private persistTimer: NodeJS.Timeout | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    limits: WolframCacheLimits = {},
+  ) {
+    super(limits);
+  }
+
+  async load(): Promise<void> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, "utf8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return;
+      throw error;
+    }
+
+    try {
+      const parsed = JSON.parse(contents);
+      if (parsed?.version !== CACHE_FILE_VERSION) {
+        logger.warn(
+          `⚠️ Ignoring Wolfram cache file with unsupported version: ${this.filePath}`,
+        );
+        return;
+      }
+
+      const now = Date.now();
+      for (const [key, entry] of Object.entries<WolframCacheEntry>(
+        parsed.entries || {},
+      )) {
+        if (!isExpired(entry, now)) {
+          this.insert(key, entry);
+        }
+      }
+      this.evict();
+      logger.log(
+        `💾 Loaded ${this.entriesByKey.size} cached Wolfram results from ${this.filePath}`,
+      );
+    } catch (error) {
+      logger.warn(`⚠️ Ignoring unreadable Wolfram cache file: ${error}`);
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+      this.write();
+    }
+    await this.pendingWrite;
+  }
+
+  protected onSet(): void {
+    this.schedulePersist();
+  }
+
+  protected onDelete(): void {
+    this.schedulePersist();
+  }
+
+  protected onClear(): void {
+    this.schedulePersist();
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.write();
+    }, PERSIST_DEBOUNCE_MS);
+    this.persistTimer.unref?.();
+  }
+
+  private write(): void {
+    const contents = JSON.stringify({
+      version: CACHE_FILE_VERSION,
+      entries: Object.fromEntries(this.entriesByKey),
+    });
+
+    this.pendingWrite = this.pendingWrite
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        // Write then rename so a crash never leaves a truncated cache file
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tmpPath, contents, "utf8");
+        await fs.rename(tmpPath, this.filePath);
+      })
+      .catch((error) => {
+        logger.error("Failed to persist Wolfram cache:", error);
+      });
+  }
+}
+
+/**
+ * Persists entries through the ElizaOS runtime cache (runtime.getCache /
+ * setCache), one cache key per entry plus an index of known keys
+ */
+export class RuntimeCacheStore extends MemoryCacheStore {
+  readonly backend: WolframCacheBackend = "runtime";
+  private pending: Set<Promise<unknown>> = new Set();
+  private indexWrite: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly runtime: WolframStateStore,
+    limits: WolframCacheLimits = {},
+  ) {
+    super(limits);
+  }
+
+  async load(): Promise<void> {
+    const index =
+      (await this.runtime.getCache<string[]>(RUNTIME_INDEX_KEY)) || [];
+    const now = Date.now();
+
+    for (const key of index) {
+      const entry = await this.runtime.getCache<WolframCacheEntry>(
+        RUNTIME_ENTRY_PREFIX + key,
+      );
+      if (entry && !isExpired(entry, now)) {
+        this.insert(key, entry);
+      } else {
+        this.track(this.runtime.deleteCache(RUNTIME_ENTRY_PREFIX + key));
+      }
+    }
+
+    this.evict();
+    this.writeIndex();
+    logger.log(
+      `💾 Loaded ${this.entriesByKey.size} cached Wolfram results from the runtime cache`,
+    );
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all([...this.pending]);
+  }
+
+  protected onSet(key: string, entry: WolframCacheEntry): void {
+    this.track(this.runtime.setCache(RUNTIME_ENTRY_PREFIX + key, entry));
+    this.writeIndex();
+  }
+
+  protected onDelete(key: string): void {
+    this.track(this.runtime.deleteCache(RUNTIME_ENTRY_PREFIX + key));
+    this.writeIndex();
+  }
+
+  protected onClear(keys: string[]): void {
+    for (const key of keys) {
+      this.track(this.runtime.deleteCache(RUNTIME_ENTRY_PREFIX + key));
+    }
+    this.writeIndex();
+  }
+
+  /**
+   * Index writes run one at a time, each listing the keys as they are when
+   * it starts, so a slow earlier write can never land last and drop keys
+   */
+  private writeIndex(): void {
+    this.indexWrite = this.indexWrite
+      .then(() =>
+        this.runtime.setCache(RUNTIME_INDEX_KEY, [...this.entriesByKey.keys()]),
+      )
+      .catch((error) => {
+        logger.error("Failed to persist Wolfram cache index:", error);
+      });
+    this.track(this.indexWrite);
+  }
+
+  private track(task: Promise<unknown>): void {
+    const tracked = task
+      .catch((error) => {
+        logger.error("Failed to persist Wolfram cache entry:", error);
+      })
+      .finally(() => {
+        this.pending.delete(tracked);
+      });
+    this.pending.add(tracked);
+  }
+}
+
+/**
+ * Builds the cache store selected by WOLFRAM_CACHE_BACKEND
+ */
+export function createCacheStore(
+  config: WolframConfig,
+  runtime: WolframStateStore,
+): WolframCacheStore {
+  const limits: WolframCacheLimits = {
+    maxEntries: config.WOLFRAM_CACHE_MAX_ENTRIES,
+    maxBytes: config.WOLFRAM_CACHE_MAX_BYTES,
+  };
+
+  switch (config.WOLFRAM_CACHE_BACKEND) {
+    case "file":
+      return new FileCacheStore(config.WOLFRAM_CACHE_PATH!, limits);
+    case "runtime":
+      return new RuntimeCacheStore(runtime, limits);
+    default:
+      return new MemoryCacheStore(limits);
+  }
+}
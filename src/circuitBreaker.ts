@@ -0,0 +1,144 @@
+import { logger } from "@elizaos/core";
+import {
+  WolframCircuitOpenError,
+  WolframCircuitBreakerOptions,
+  WolframCircuitBreakerStats,
+  WolframCircuitState,
+  WolframError,
+} from "./types";
+
+export const DEFAULT_FAILURE_THRESHOLD = 5;
+export const DEFAULT_RESET_TIMEOUT_MS = 30000;
+
+// Codes of requests that never reached Wolfram, from Node and axios
+const NETWORK_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "EPIPE",
+  "ERR_NETWORK",
+];
+
+/**
+ * Whether a failed request says something about the endpoint's health.
+ * Network errors, timeouts and 5xx count; 501 is Wolfram's normal "did not
+ * understand your input" answer, and 4xx/429 mean the endpoint is up. So
+ * does an error Wolfram reported in a response body (`queryresult.error`).
+ */
+export function isOutageError(error: any): boolean {
+  if (error instanceof WolframError) {
+    if (error.code === "TIMEOUT" || error.code === "NETWORK") return true;
+    return error.status !== undefined && isOutageStatus(error.status);
+  }
+
+  const status = error?.response?.status;
+  if (status !== undefined) return isOutageStatus(status);
+  return (
+    NETWORK_ERROR_CODES.includes(error?.code) ||
+    /timeout/i.test(error?.message ?? "")
+  );
+}
+
+function isOutageStatus(status: number): boolean {
+  return status >= 500 && status !== 501;
+}
+
+/**
+ * Closed/open/half-open breaker for a single endpoint. After
+ * `failureThreshold` consecutive failures it refuses requests for
+ * `resetTimeoutMs`, then lets a single probe through: success closes the
+ * circuit, failure opens it again.
+ */
+export class WolframCircuitBreaker {
+  readonly failureThreshold: number;
+  readonly resetTimeoutMs: number;
+  private state: WolframCircuitState = "closed";
+  private consecutiveFailures = 0;
+  private rejected = 0;
+  private openedAt = 0;
+  private probing = false;
+
+  constructor(
+    readonly endpoint: string,
+    options: WolframCircuitBreakerOptions = {},
+    private readonly now: () => number = Date.now,
+  ) {
+    this.failureThreshold =
+      options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+  }
+
+  /**
+   * Throws WolframCircuitOpenError when the request must not be sent
+   */
+  beforeRequest(): void {
+    if (this.state === "closed") return;
+
+    const retryAt = this.openedAt + this.resetTimeoutMs;
+    if (this.state === "open" && this.now() >= retryAt) {
+      this.state = "half-open";
+      logger.log(`🔌 Probing Wolfram endpoint ${this.endpoint}`);
+    }
+
+    if (this.state === "half-open" && !this.probing) {
+      this.probing = true;
+      return;
+    }
+
+    this.rejected += 1;
+    throw new WolframCircuitOpenError(this.endpoint, retryAt);
+  }
+
+  /**
+   * Gives back a probe slot when the request was abandoned before reaching
+   * the endpoint
+   */
+  release(): void {
+    this.probing = false;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== "closed") {
+      logger.log(`✅ Wolfram endpoint ${this.endpoint} recovered`);
+    }
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.probing = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures += 1;
+    this.probing = false;
+
+    if (
+      this.state === "half-open" ||
+      this.consecutiveFailures >= this.failureThreshold
+    ) {
+      if (this.state !== "open") {
+        logger.warn(
+          `⚠️ Opening circuit for Wolfram endpoint ${this.endpoint} after ${this.consecutiveFailures} consecutive failures`,
+        );
+      }
+      this.state = "open";
+      this.openedAt = this.now();
+    }
+  }
+
+  getStats(): WolframCircuitBreakerStats {
+    const stats: WolframCircuitBreakerStats = {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      rejected: this.rejected,
+    };
+    if (this.state !== "closed") {
+      stats.openedAt = this.openedAt;
+      stats.retryAt = this.openedAt + this.resetTimeoutMs;
+    }
+    return stats;
+  }
+}
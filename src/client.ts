@@ -0,0 +1,1938 @@
+import { logger } from "@elizaos/core";
+import { WolframConfig, wolframConfigFromOptions } from "./environment";
+import {
+  WolframAlphaQueryResult,
+  WolframShortAnswerResult,
+  WolframSpokenResult,
+  WolframConversationResult,
+  WolframLLMOptions,
+  WolframConversationOptions,
+  WolframConversationState,
+  WolframQueryOptions,
+  WolframAPIEndpoint,
+  WolframCacheStore,
+  WolframTtlContext,
+  WolframPod,
+  WolframAnalysisResult,
+  WolframServiceOptions,
+  WolframClientDependencies,
+  WolframServiceStats,
+  WolframStateStore,
+  WolframCoalescingKeyStats,
+  WolframCircuitBreakerStats,
+  WolframRetryStats,
+  WolframTransport,
+  WolframTransportRequest,
+  WolframError,
+  WolframInvalidAppIdError,
+  WolframMalformedResponseError,
+  WolframQuotaExceededError,
+  WolframApiError,
+  WolframInputNotUnderstoodError,
+  WolframSuggestions,
+  WolframComputeResult,
+  WolframAnswerSource,
+  WolframAsyncPodOptions,
+  WolframCallContext,
+  WolframAbortedError,
+  WolframBatchItem,
+  WolframBatchMethod,
+  WolframBatchOptions,
+  WolframBatchResult,
+  WolframQueryContext,
+  WolframAssumptionPreference,
+  WolframPodStateOption,
+  WolframAssumptionOption,
+  toWolframError,
+} from "./types";
+import { createTransport, RecordingTransport } from "./transport";
+import { AuditTransport } from "./audit";
+import { createCacheStore } from "./cache";
+import { WolframTtlPolicy } from "./ttlPolicy";
+import { buildCacheKey, stableStringify } from "./normalize";
+import { createQuotaTracker, hashAppId, WolframQuotaTracker } from "./quota";
+import { createAppIdPool, WolframAppIdPool } from "./appIds";
+import { isOutageError, WolframCircuitBreaker } from "./circuitBreaker";
+import { createRetryPolicy, WolframRetryPolicy } from "./retryPolicy";
+import { emptySuggestions, extractSuggestions } from "./suggestions";
+import { listPodStates, STEP_BY_STEP_STATE, withPodState } from "./podStates";
+import { listAssumptions } from "./assumptions";
+import {
+  createMetrics,
+  renderPrometheusMetrics,
+  WolframMetrics,
+} from "./metrics";
+import { WolframAssumptionPreferences } from "./preferences";
+import {
+  createConversationSessions,
+  WolframConversationSessions,
+} from "./conversations";
+
+/**
+ * Transport failures are already typed by getWithRetry; anything else was
+ * raised while reading the response payload
+ */
+function wrapError(error: unknown, endpoint: string): WolframError {
+  if (error instanceof WolframError) return error;
+  return new WolframMalformedResponseError(
+    `Unexpected response from ${endpoint}: ${error instanceof Error ? error.message : String(error)}`,
+    { endpoint, cause: error },
+  );
+}
+
+/**
+ * Async pod URLs answer with the pod alone, wrapped like a query result or
+ * not depending on the Wolfram server
+ */
+function podFromAsyncResponse(data: any): WolframPod | undefined {
+  const candidate =
+    data?.queryresult?.pods?.[0] ?? data?.pods?.[0] ?? data?.pod ?? data;
+  return candidate && typeof candidate === "object" && "title" in candidate
+    ? (candidate as WolframPod)
+    : undefined;
+}
+
+function abortedError(signal: AbortSignal, endpoint: string): WolframError {
+  return new WolframAbortedError(`Wolfram request to ${endpoint} was aborted`, {
+    endpoint,
+    cause: signal.reason,
+  });
+}
+
+/**
+ * Settles like `promise`, or rejects with WolframAbortedError as soon as
+ * `signal` fires. The promise itself keeps running.
+ */
+function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  endpoint: string,
+): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortedError(signal, endpoint));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortedError(signal, endpoint));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+function delay(
+  ms: number,
+  signal: AbortSignal | undefined,
+  endpoint: string,
+): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  return abortable(
+    new Promise<void>((r) => {
+      timer = setTimeout(r, ms);
+    }),
+    signal,
+    endpoint,
+  ).finally(() => clearTimeout(timer));
+}
+
+// Endpoint each batch method's errors are attributed to
+const BATCH_ENDPOINTS: Record<WolframBatchMethod, string> = {
+  query: WolframAPIEndpoint.QUERY,
+  short: WolframAPIEndpoint.SHORT,
+  result: WolframAPIEndpoint.RESULT,
+  spoken: WolframAPIEndpoint.SPOKEN,
+  simple: WolframAPIEndpoint.SIMPLE,
+  llm: WolframAPIEndpoint.LLM,
+  solve: WolframAPIEndpoint.QUERY,
+  steps: WolframAPIEndpoint.QUERY,
+  compute: WolframAPIEndpoint.SHORT,
+  facts: WolframAPIEndpoint.QUERY,
+  analyze: WolframAPIEndpoint.QUERY,
+};
+
+interface AsyncPodLoad {
+  placeholder: WolframPod;
+  settled: boolean;
+  pod: Promise<WolframPod | null>;
+}
+
+interface InflightRequest {
+  promise: Promise<any>;
+  controller: AbortController;
+  waiting: number; // callers still waiting on the result
+}
+
+/**
+ * The v2 query API reports problems such as a bad App ID inside a 200
+ * response as `queryresult.error: {code, msg}`
+ */
+function throwIfQueryError(result: WolframAlphaQueryResult): void {
+  const { error } = result;
+  if (!error || typeof error !== "object") return;
+
+  const message = `Wolfram query error ${error.code}: ${error.msg}`;
+  const details = { endpoint: WolframAPIEndpoint.QUERY };
+  // Error 1 is "Invalid appid", error 2 "Appid missing"
+  if (String(error.code) === "1" || String(error.code) === "2") {
+    throw new WolframInvalidAppIdError(message, details);
+  }
+  throw new WolframApiError(message, details);
+}
+
+/**
+ * Keeps quota counters, remembered assumptions and conversations in memory
+ * when there is no ElizaOS runtime cache to persist them in
+ */
+export class MemoryStateStore implements WolframStateStore {
+  private values: Map<string, unknown> = new Map();
+
+  async getCache<T>(key: string): Promise<T | undefined> {
+    return this.values.get(key) as T | undefined;
+  }
+
+  async setCache<T>(key: string, value: T): Promise<boolean> {
+    this.values.set(key, value);
+    return true;
+  }
+
+  async deleteCache(key: string): Promise<boolean> {
+    return this.values.delete(key);
+  }
+}
+
+/**
+ * Wolfram Alpha API client with caching, request coalescing, quotas, App ID
+ * rotation, retries and circuit breakers. Works without an ElizaOS runtime;
+ * WolframService wraps one for the plugin.
+ */
+export class WolframClient {
+  readonly config: WolframConfig;
+  transport!: WolframTransport;
+  cache: WolframCacheStore;
+  ttlPolicy: WolframTtlPolicy;
+  quota: WolframQuotaTracker;
+  appIds: WolframAppIdPool;
+  circuitBreakers: Map<string, WolframCircuitBreaker>; // endpoint -> breaker
+  retryPolicy: WolframRetryPolicy;
+  retryStats: WolframRetryStats;
+  conversations: WolframConversationSessions;
+  inflight: Map<string, InflightRequest>; // cacheKey -> pending request
+  asyncPodLoads: Set<Promise<unknown>>; // background async pod fetches
+  assumptionPreferences: WolframAssumptionPreferences;
+  coalesceStats: Map<string, WolframCoalescingKeyStats>;
+  metrics: WolframMetrics;
+  coalescedRequests = 0;
+  cacheHits = 0;
+  cacheMisses = 0;
+  readonly CACHE_TTL = 3600000; // 1 hour in milliseconds
+  readonly MAX_COALESCE_STATS = 200; // Cap per-key request statistics
+
+  /**
+   * Takes plain options, or a config already validated by
+   * validateWolframConfig
+   */
+  constructor(
+    options: WolframServiceOptions | WolframConfig,
+    dependencies: WolframClientDependencies = {},
+  ) {
+    this.config =
+      "WOLFRAM_APP_ID" in options ? options : wolframConfigFromOptions(options);
+    const store = dependencies.store ?? new MemoryStateStore();
+
+    if (dependencies.transport) {
+      this.transport = dependencies.transport;
+    }
+    this.ttlPolicy = new WolframTtlPolicy(
+      this.config.WOLFRAM_CACHE_TTL_RULES,
+      this.config.WOLFRAM_CACHE_TTL ?? this.CACHE_TTL,
+    );
+    this.cache = createCacheStore(this.config, store);
+    this.quota = createQuotaTracker(this.config, store);
+    this.appIds = createAppIdPool(this.config);
+    this.conversations = createConversationSessions(this.config, store);
+    this.assumptionPreferences = new WolframAssumptionPreferences(store);
+    this.retryPolicy = createRetryPolicy(this.config);
+    this.metrics = createMetrics(this.config);
+    this.retryStats = { attempts: 0, retries: 0, exhausted: 0, byReason: {} };
+    this.inflight = new Map();
+    this.asyncPodLoads = new Set();
+    this.coalesceStats = new Map();
+    this.circuitBreakers = new Map();
+  }
+
+  /**
+   * Creates the transport unless one was injected, loads persisted cache
+   * entries and checks the App ID with a test request
+   */
+  async initialize(): Promise<void> {
+    if (!this.transport) {
+      this.transport = await createTransport(this.config);
+    }
+    await this.cache.load();
+    await this.validateApiKey();
+  }
+
+  /**
+   * Validates the API key by making a test request
+   */
+  private async validateApiKey(): Promise<void> {
+    const appIds = this.appIds.size
+      ? this.appIds.appIds
+      : [this.config.WOLFRAM_APP_ID];
+
+    // One bad App ID among several only takes that one out of rotation
+    let rejected: WolframInvalidAppIdError | undefined;
+    for (const appId of appIds) {
+      try {
+        await this.validateAppId(appId);
+        return;
+      } catch (error) {
+        if (!(error instanceof WolframInvalidAppIdError)) throw error;
+        rejected = error;
+        if (appIds.length > 1) this.appIds.recordFailure(appId, error);
+      }
+    }
+    throw rejected;
+  }
+
+  private async validateAppId(appId: string): Promise<void> {
+    // The validation call counts against the quota like any other; with the
+    // budget already spent, skip it rather than report a bad App ID
+    try {
+      await this.quota.acquire(appId);
+    } catch (error) {
+      if (error instanceof WolframQuotaExceededError) {
+        logger.warn(`⚠️ Skipping Wolfram App ID validation: ${error.message}`);
+        return;
+      }
+      throw error;
+    }
+
+    // Minimal validation by querying the Short Answer API
+    try {
+      const response = await this.transport.get("/short", {
+        params: {
+          appid: appId,
+          input: "2+2",
+        },
+        responseType: "text",
+      });
+      if (!response?.data || typeof response.data !== "string") {
+        throw new WolframMalformedResponseError(
+          "Unexpected validation response",
+          { endpoint: "/short", status: response?.status },
+        );
+      }
+    } catch (error) {
+      logger.error("Failed to validate Wolfram API key:", error);
+      const wolframError = toWolframError(error, "/short");
+      if (wolframError instanceof WolframInvalidAppIdError) {
+        throw new WolframInvalidAppIdError(
+          "Invalid or missing Wolfram Alpha App ID",
+          { status: wolframError.status, endpoint: "/short", cause: error },
+        );
+      }
+      throw wolframError;
+    }
+  }
+
+  /**
+   * GET with retries as decided by the retry policy. Every attempt, retries
+   * included, is counted against the App ID's quota and reported to the
+   * endpoint's circuit breaker, which stops further attempts once open.
+   * Requests that carry an App ID use one from the pool and fail over to
+   * the next when it is rejected or out of quota. `config.signal` cancels
+   * the request in flight as well as rate limit and backoff waits.
+   * Each attempt's latency and outcome go to the endpoint's metrics.
+   */
+  private async getWithRetry(
+    client: WolframTransport,
+    url: string,
+    config: WolframTransportRequest,
+    endpoint: string = url,
+  ): Promise<any> {
+    const breaker = this.getCircuitBreaker(endpoint);
+    const maxAttempts = this.retryPolicy.maxAttempts;
+    const failedAppIds = new Set<string>();
+    const signal = config.signal;
+
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) throw abortedError(signal, endpoint);
+      try {
+        breaker.beforeRequest();
+      } catch (err) {
+        this.metrics.recordRefusal(endpoint, toWolframError(err, endpoint));
+        throw err;
+      }
+      let request = config;
+      let appId: string | undefined;
+      try {
+        if (config.params?.appid) {
+          appId = await abortable(
+            this.acquireAppId(config.params.appid, failedAppIds, signal),
+            signal,
+            endpoint,
+          );
+          request = { ...config, params: { ...config.params, appid: appId } };
+        }
+      } catch (err) {
+        breaker.release();
+        this.metrics.recordRefusal(endpoint, toWolframError(err, endpoint));
+        throw err;
+      }
+
+      this.retryStats.attempts += 1;
+      logger.debug(
+        `Wolfram request ${url} (attempt ${attempt}/${maxAttempts})`,
+      );
+
+      const startedAt = Date.now();
+      try {
+        const response = await client.get(url, request);
+        if (
+          endpoint === WolframAPIEndpoint.QUERY &&
+          response?.data?.queryresult
+        ) {
+          throwIfQueryError(response.data.queryresult);
+        }
+        this.metrics.recordRequest(endpoint, Date.now() - startedAt);
+        breaker.recordSuccess();
+        if (appId) this.appIds.recordSuccess(appId);
+        return response;
+      } catch (err: any) {
+        // A cancelled request says nothing about the endpoint's health
+        if (signal?.aborted) {
+          breaker.release();
+          const aborted = abortedError(signal, endpoint);
+          this.metrics.recordRequest(endpoint, Date.now() - startedAt, aborted);
+          throw aborted;
+        }
+        const rejected = toWolframError(err, endpoint, config.params?.input);
+        this.metrics.recordRequest(endpoint, Date.now() - startedAt, rejected);
+        // Errors from a 200 body (bad App ID, ...) mean the endpoint is up
+        if (isOutageError(err)) {
+          breaker.recordFailure();
+        } else {
+          breaker.recordSuccess();
+        }
+
+        if (appId && rejected instanceof WolframInvalidAppIdError) {
+          failedAppIds.add(appId);
+          if (this.appIds.size > 1) this.appIds.recordFailure(appId, rejected);
+          if (this.appIds.hasAlternative(failedAppIds)) {
+            logger.warn(
+              `🔀 Wolfram rejected App ID ${hashAppId(appId)}, failing over`,
+            );
+            // Failing over is not a retry of the same request
+            attempt -= 1;
+            continue;
+          }
+        }
+
+        const reason = this.retryPolicy.retryReason(err);
+        const delayMs = this.retryPolicy.nextDelay(err, attempt);
+        if (delayMs === null) {
+          if (reason) {
+            this.retryStats.exhausted += 1;
+            logger.warn(
+              `⚠️ Giving up on Wolfram request ${url} after ${attempt} attempt(s) (${reason})`,
+            );
+          }
+          throw rejected;
+        }
+
+        this.retryStats.retries += 1;
+        this.retryStats.byReason[reason!] =
+          (this.retryStats.byReason[reason!] || 0) + 1;
+        logger.warn(
+          `🔁 Retrying Wolfram request ${url} in ${delayMs}ms (attempt ${attempt}/${maxAttempts} failed: ${reason})`,
+        );
+        await delay(delayMs, signal, endpoint);
+      }
+    }
+  }
+
+  /**
+   * Picks the App ID for the next attempt and counts the call against its
+   * quota, moving on to another App ID when that quota is spent
+   */
+  private async acquireAppId(
+    requested: string,
+    failedAppIds: Set<string>,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    for (;;) {
+      const appId =
+        (await this.appIds.select(failedAppIds, this.quota)) ?? requested;
+      try {
+        await this.quota.acquire(appId, signal);
+        return appId;
+      } catch (error) {
+        if (!(error instanceof WolframQuotaExceededError)) throw error;
+        failedAppIds.add(appId);
+        if (this.appIds.size > 1) this.appIds.recordFailure(appId, error);
+        if (!this.appIds.hasAlternative(failedAppIds)) throw error;
+        logger.warn(
+          `🔀 Wolfram App ID ${hashAppId(appId)} is out of quota, failing over`,
+        );
+      }
+    }
+  }
+
+  private getCircuitBreaker(url: string): WolframCircuitBreaker {
+    let breaker = this.circuitBreakers.get(url);
+    if (!breaker) {
+      breaker = new WolframCircuitBreaker(url, {
+        failureThreshold: this.config.WOLFRAM_CIRCUIT_FAILURE_THRESHOLD,
+        resetTimeoutMs: this.config.WOLFRAM_CIRCUIT_RESET_TIMEOUT,
+      });
+      this.circuitBreakers.set(url, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Shares one pending request between concurrent callers with the same
+   * cache key, since the cache is only populated once a response arrives.
+   * The shared request runs under its own signal; a caller's signal only
+   * stops that caller waiting, and the request is aborted once every
+   * caller has left.
+   */
+  private coalesce<T>(
+    key: string,
+    signal: AbortSignal | undefined,
+    run: (signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    let stats = this.coalesceStats.get(key);
+    if (stats) {
+      // Re-insert so the least recently requested keys are dropped first
+      this.coalesceStats.delete(key);
+    } else {
+      stats = { requests: 0, coalesced: 0, lastRequestedAt: 0 };
+    }
+    stats.requests += 1;
+    stats.lastRequestedAt = Date.now();
+    this.coalesceStats.set(key, stats);
+
+    if (this.coalesceStats.size > this.MAX_COALESCE_STATS) {
+      const oldestKey = this.coalesceStats.keys().next().value;
+      if (oldestKey) this.coalesceStats.delete(oldestKey);
+    }
+
+    if (signal?.aborted) return Promise.reject(abortedError(signal, key));
+
+    let request = this.inflight.get(key);
+    if (request) {
+      stats.coalesced += 1;
+      this.coalescedRequests += 1;
+      logger.log(`🔗 Joining in-flight Wolfram request: "${key}"`);
+    } else {
+      const controller = new AbortController();
+      const started: InflightRequest = {
+        controller,
+        waiting: 0,
+        promise: run(controller.signal).finally(() => {
+          if (this.inflight.get(key) === started) this.inflight.delete(key);
+        }),
+      };
+      this.inflight.set(key, started);
+      request = started;
+    }
+
+    const shared = request;
+    shared.waiting += 1;
+    if (signal) {
+      const onAbort = () => {
+        shared.waiting -= 1;
+        if (shared.waiting > 0) return;
+        // Later callers must start afresh rather than join a cancelled request
+        if (this.inflight.get(key) === shared) this.inflight.delete(key);
+        shared.controller.abort(signal.reason);
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+      const cleanup = () => signal.removeEventListener("abort", onAbort);
+      shared.promise.then(cleanup, cleanup);
+    }
+    return abortable(shared.promise as Promise<T>, signal, key);
+  }
+
+  /**
+   * Main query method for full Wolfram Alpha results
+   */
+  async query(
+    input: string,
+    options: Partial<WolframQueryOptions> = {},
+    context: WolframQueryContext = {},
+  ): Promise<WolframAlphaQueryResult> {
+    const { preferenceScope: scope, ...callOptions } = context;
+    // An explicit assumption always wins over remembered ones
+    if (!scope || options.assumption !== undefined) {
+      return this.fetchQuery(input, options, callOptions);
+    }
+
+    const tokens = await this.assumptionPreferences.tokensFor(scope, input);
+    const preferred =
+      tokens.length > 0 ? { ...options, assumption: tokens } : options;
+    const result = await this.fetchQuery(input, preferred, callOptions);
+
+    if (result.success) {
+      const corrected = await this.assumptionPreferences.corrections(
+        scope,
+        result,
+      );
+      if (corrected.length > 0) {
+        logger.log(`🔀 Re-running "${input}" with remembered assumptions`);
+        return this.fetchQuery(
+          input,
+          { ...options, assumption: corrected },
+          callOptions,
+        );
+      }
+    }
+    return result;
+  }
+
+  private async fetchQuery(
+    input: string,
+    options: Partial<WolframQueryOptions>,
+    callOptions: WolframAsyncPodOptions & WolframCallContext,
+  ): Promise<WolframAlphaQueryResult> {
+    const { signal } = callOptions;
+    const cacheKey = this.cacheKey("query", input, options);
+
+    // Check cache
+    const cached = this.getCached(cacheKey);
+    if (cached) {
+      logger.log("🎯 Returning cached Wolfram query result");
+      return cached as WolframAlphaQueryResult;
+    }
+
+    const { result, asyncPods } = await this.coalesce(
+      cacheKey,
+      signal,
+      async (signal) => {
+        try {
+          logger.log(`🔍 Querying Wolfram Alpha: "${input}"`);
+
+          const params: WolframQueryOptions = {
+            input,
+            appid: this.config.WOLFRAM_APP_ID,
+            format: "plaintext,image",
+            output: "json",
+            units: this.config.WOLFRAM_UNITS,
+            ...options,
+          };
+
+          if (this.config.WOLFRAM_LOCATION && !params.location) {
+            params.location = this.config.WOLFRAM_LOCATION;
+          }
+
+          if (this.config.WOLFRAM_SCANNERS && !params.scanner) {
+            params.scanner = this.config.WOLFRAM_SCANNERS;
+          }
+
+          if (this.config.WOLFRAM_ASYNC_PODS && params.async === undefined) {
+            params.async = true;
+          }
+
+          const response = await this.getWithRetry(
+            this.transport,
+            WolframAPIEndpoint.QUERY,
+            { params, signal },
+          );
+
+          const result: WolframAlphaQueryResult = response.data?.queryresult;
+          if (!result || typeof result !== "object") {
+            throw new WolframMalformedResponseError(
+              "Wolfram query response has no queryresult",
+              { endpoint: WolframAPIEndpoint.QUERY, status: response.status },
+            );
+          }
+
+          const asyncPods = result.success
+            ? this.loadAsyncPods(result, signal)
+            : [];
+          const cacheResult = () =>
+            this.setCached(cacheKey, result, {
+              method: "query",
+              input,
+              pods: result.pods,
+            });
+
+          if (result.success) {
+            if (asyncPods.length === 0) {
+              cacheResult();
+            } else {
+              // Only a fully loaded result is worth caching; async pod URLs
+              // expire shortly after the query
+              Promise.all(asyncPods.map((load) => load.pod)).then((pods) => {
+                if (pods.every(Boolean)) cacheResult();
+              });
+            }
+            logger.log(
+              `✅ Wolfram query successful with ${result.numpods} pods`,
+            );
+          } else {
+            logger.warn(`⚠️ Wolfram query returned no results for: "${input}"`);
+          }
+
+          return { result, asyncPods };
+        } catch (error) {
+          logger.error("❌ Wolfram query failed:", error);
+          throw wrapError(error, WolframAPIEndpoint.QUERY);
+        }
+      },
+    );
+
+    if (asyncPods.length > 0) {
+      await this.awaitAsyncPods(asyncPods, {
+        waitMs: this.config.WOLFRAM_ASYNC_WAIT,
+        ...callOptions,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Starts fetching every pod Wolfram deferred in async mode. Each loaded
+   * pod replaces its placeholder in `result.pods`; placeholders of pods that
+   * fail to load are marked as errors.
+   */
+  private loadAsyncPods(
+    result: WolframAlphaQueryResult,
+    signal?: AbortSignal,
+  ): AsyncPodLoad[] {
+    const pods = result.pods || [];
+    const placeholders = pods.filter((pod) => pod.async);
+
+    return placeholders.map((placeholder) => {
+      const load: AsyncPodLoad = {
+        placeholder,
+        settled: false,
+        pod: Promise.resolve(null),
+      };
+
+      load.pod = this.getWithRetry(
+        this.transport,
+        placeholder.async!,
+        { signal },
+        WolframAPIEndpoint.ASYNC_POD,
+      )
+        .then((response) => {
+          const pod = podFromAsyncResponse(response.data);
+          if (!pod) {
+            throw new WolframMalformedResponseError(
+              `Async pod "${placeholder.title}" response has no pod`,
+              {
+                endpoint: WolframAPIEndpoint.ASYNC_POD,
+                status: response.status,
+              },
+            );
+          }
+          const index = pods.indexOf(placeholder);
+          if (index >= 0) pods[index] = pod;
+          return pod;
+        })
+        .catch((error) => {
+          logger.warn(
+            `⚠️ Could not load async Wolfram pod "${placeholder.title}": ${error}`,
+          );
+          placeholder.error = true;
+          return null;
+        })
+        .finally(() => {
+          load.settled = true;
+          this.asyncPodLoads.delete(load.pod);
+        });
+      this.asyncPodLoads.add(load.pod);
+
+      return load;
+    });
+  }
+
+  /**
+   * Waits up to `waitMs` for async pods, then hands those still loading to
+   * `onPod` as they arrive
+   */
+  private async awaitAsyncPods(
+    asyncPods: AsyncPodLoad[],
+    { waitMs = 0, onPod, signal }: WolframAsyncPodOptions & WolframCallContext,
+  ): Promise<void> {
+    if (waitMs > 0) {
+      let timer: NodeJS.Timeout | undefined;
+      await abortable(
+        Promise.race([
+          Promise.all(asyncPods.map((load) => load.pod)),
+          new Promise((r) => {
+            timer = setTimeout(r, waitMs);
+          }),
+        ]),
+        signal,
+        WolframAPIEndpoint.ASYNC_POD,
+      ).finally(() => clearTimeout(timer));
+    }
+
+    if (!onPod) return;
+    for (const load of asyncPods) {
+      if (load.settled) continue;
+      load.pod
+        .then((pod) => (pod ? onPod(pod) : undefined))
+        .catch((error) => {
+          logger.error("Failed to deliver async Wolfram pod:", error);
+        });
+    }
+  }
+
+  /**
+   * States ("More digits", "Exact form", "Step-by-step solution", ...) the
+   * pods of a result offer, optionally for a single pod
+   */
+  listPodStates(
+    result: WolframAlphaQueryResult,
+    podId?: string,
+  ): WolframPodStateOption[] {
+    return listPodStates(result, podId);
+  }
+
+  /**
+   * Re-runs a query with a pod state applied on top of any in `options`
+   */
+  async queryWithPodState(
+    input: string,
+    state: WolframPodStateOption | string,
+    options: Partial<WolframQueryOptions> = {},
+    context: WolframCallContext = {},
+  ): Promise<WolframAlphaQueryResult> {
+    const podstate = typeof state === "string" ? state : state.input;
+    logger.log(`🔀 Applying pod state "${podstate}" to: "${input}"`);
+    return this.query(input, withPodState(options, podstate), context);
+  }
+
+  /**
+   * Interpretations Wolfram considered for a result ("Mercury" as a planet,
+   * a chemical element, ...)
+   */
+  listAssumptions(result: WolframAlphaQueryResult): WolframAssumptionOption[] {
+    return listAssumptions(result);
+  }
+
+  /**
+   * Re-runs a query with an interpretation chosen through `assumption`
+   */
+  async queryWithAssumption(
+    input: string,
+    assumption: WolframAssumptionOption | string,
+    options: Partial<WolframQueryOptions> = {},
+    context: WolframCallContext = {},
+  ): Promise<WolframAlphaQueryResult> {
+    const token =
+      typeof assumption === "string" ? assumption : assumption.input;
+    logger.log(`🔀 Applying assumption "${token}" to: "${input}"`);
+    return this.query(input, { ...options, assumption: token }, context);
+  }
+
+  /**
+   * Remembers an interpretation so later queries in the scope that mention
+   * the same word use it
+   */
+  async rememberAssumption(
+    scope: string,
+    assumption: WolframAssumptionOption,
+  ): Promise<WolframAssumptionPreference | undefined> {
+    return this.assumptionPreferences.remember(scope, assumption);
+  }
+
+  async listAssumptionPreferences(
+    scope: string,
+  ): Promise<WolframAssumptionPreference[]> {
+    return this.assumptionPreferences.list(scope);
+  }
+
+  /**
+   * Forgets remembered interpretations in the scope, all of them or only
+   * those for one word, and returns how many were removed
+   */
+  async resetAssumptionPreferences(
+    scope: string,
+    word?: string,
+  ): Promise<number> {
+    return this.assumptionPreferences.reset(scope, word);
+  }
+
+  /**
+   * Simple API - returns a single image result
+   */
+  async getSimpleAnswer(
+    input: string,
+    { signal }: WolframCallContext = {},
+  ): Promise<string> {
+    const cacheKey = this.cacheKey("simple", input);
+
+    const cached = this.getCached(cacheKey);
+    if (cached) {
+      return cached as string;
+    }
+
+    return this.coalesce(cacheKey, signal, async (signal) => {
+      try {
+        logger.log(`🖼️ Getting simple answer for: "${input}"`);
+
+        const response = await this.getWithRetry(
+          this.transport,
+          WolframAPIEndpoint.SIMPLE,
+          {
+            params: {
+              appid: this.config.WOLFRAM_APP_ID,
+              input,
+              units: this.config.WOLFRAM_UNITS,
+              location: this.config.WOLFRAM_LOCATION,
+            },
+            responseType: "arraybuffer",
+            signal,
+          },
+        );
+
+        // Convert to base64 for easy storage/transmission
+        const base64 = Buffer.from(response.data).toString("base64");
+        const imageUrl = `data:image/gif;base64,${base64}`;
+
+        this.setCached(cacheKey, imageUrl, {
+          method: "getSimpleAnswer",
+          input,
+        });
+        return imageUrl;
+      } catch (error) {
+        logger.error("Failed to get simple answer:", error);
+        throw wrapError(error, WolframAPIEndpoint.SIMPLE);
+      }
+    });
+  }
+
+  /**
+   * Short Answer API - returns a single plaintext result
+   */
+  async getShortAnswer(
+    input: string,
+    { signal }: WolframCallContext = {},
+  ): Promise<WolframShortAnswerResult> {
+    const cacheKey = this.cacheKey("short", input);
+
+    const cached = this.getCached(cacheKey);
+    if (cached) {
+      return cached as WolframShortAnswerResult;
+    }
+
+    return this.coalesce(cacheKey, signal, async (signal) => {
+      try {
+        logger.log(`📝 Getting short answer for: "${input}"`);
+
+        const result: WolframShortAnswerResult = {
+          answer: await this.fetchTextAnswer(
+            WolframAPIEndpoint.SHORT,
+            input,
+            signal,
+          ),
+          success: true,
+        };
+
+        this.setCached(cacheKey, result, {
+          method: "getShortAnswer",
+          input,
+        });
+        return result;
+      } catch (error) {
+        if (error instanceof WolframInputNotUnderstoodError) {
+          logger.warn(`⚠️ Wolfram did not understand: "${input}"`);
+          return {
+            answer: "",
+            success: false,
+            error: error.message,
+            notUnderstood: true,
+            suggestions: await this.getSuggestions(input, { signal }),
+          };
+        }
+        logger.error("Failed to get short answer:", error);
+        throw wrapError(error, WolframAPIEndpoint.SHORT);
+      }
+    });
+  }
+
+  /**
+   * Short Answers API (/result) - a single plaintext result, with units and
+   * location applied
+   */
+  async getResult(
+    input: string,
+    { signal }: WolframCallContext = {},
+  ): Promise<WolframShortAnswerResult> {
+    const cacheKey = this.cacheKey("result", input);
+
+    const cached = this.getCached(cacheKey);
+    if (cached) {
+      return cached as WolframShortAnswerResult;
+    }
+
+    return this.coalesce(cacheKey, signal, async (signal) => {
+      try {
+        logger.log(`📝 Getting result for: "${input}"`);
+
+        const result: WolframShortAnswerResult = {
+          answer: await this.fetchTextAnswer(
+            WolframAPIEndpoint.RESULT,
+            input,
+            signal,
+          ),
+          success: true,
+        };
+
+        this.setCached(cacheKey, result, {
+          method: "getResult",
+          input,
+        });
+        return result;
+      } catch (error) {
+        // /result answers 501 both for input it did not understand and for
+        // input that has no short answer
+        if (error instanceof WolframInputNotUnderstoodError) {
+          logger.warn(`⚠️ Wolfram had no result for: "${input}"`);
+          return {
+            answer: "",
+            success: false,
+            error: error.message,
+            notUnderstood: true,
+            suggestions: await this.getSuggestions(input, { signal }),
+          };
+        }
+        logger.error("Failed to get result:", error);
+        throw wrapError(error, WolframAPIEndpoint.RESULT);
+      }
+    });
+  }
+
+  /**
+   * Raw /short or /result request without caching or suggestions; a 501
+   * surfaces as WolframInputNotUnderstoodError
+   */
+  private async fetchTextAnswer(
+    endpoint: WolframAPIEndpoint.SHORT | WolframAPIEndpoint.RESULT,
+    input: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const response = await this.getWithRetry(this.transport, endpoint, {
+      params: {
+        appid: this.config.WOLFRAM_APP_ID,
+        input,
+        units: this.config.WOLFRAM_UNITS,
+        location: this.config.WOLFRAM_LOCATION,
+      },
+      responseType: "text",
+      signal,
+    });
+
+    if (typeof response.data !== "string") {
+      throw new WolframMalformedResponseError(
+        `${endpoint} response is not text`,
+        { endpoint, status: response.status },
+      );
+    }
+    return response.data;
+  }
+
+  /**
+   * Spoken Answer API - returns natural language response
+   */
+  async getSpokenAnswer(
+    input: string,
+    { signal }: WolframCallContext = {},
+  ): Promise<WolframSpokenResult> {
+    const cacheKey = this.cacheKey("spoken", input);
+
+    const cached = this.getCached(cacheKey);
+    if (cached) {
+      return cached as WolframSpokenResult;
+    }
+
+    return this.coalesce(cacheKey, signal, async (signal) => {
+      try {
+        logger.log(`🗣️ Getting spoken answer for: "${input}"`);
+
+        const response = await this.getWithRetry(
+          this.transport,
+          WolframAPIEndpoint.SPOKEN,
+          {
+            params: {
+              appid: this.config.WOLFRAM_APP_ID,
+              input,
+              units: this.config.WOLFRAM_UNITS,
+              location: this.config.WOLFRAM_LOCATION,
+            },
+            responseType: "text",
+            signal,
+          },
+        );
+
+        if (typeof response.data !== "string") {
+          throw new WolframMalformedResponseError(
+            "Spoken answer response is not text",
+            { endpoint: WolframAPIEndpoint.SPOKEN, status: response.status },
+          );
+        }
+
+        const result: WolframSpokenResult = {
+          spoken: response.data,
+          success: true,
+        };
+
+        this.setCached(cacheKey, result, {
+          method: "getSpokenAnswer",
+          input,
+        });
+        return result;
+      } catch (error) {
+        if (error instanceof WolframInputNotUnderstoodError) {
+          logger.warn(`⚠️ Wolfram did not understand: "${input}"`);
+          return {
+            spoken: "",
+            success: false,
+            error: error.message,
+            notUnderstood: true,
+            suggestions: await this.getSuggestions(input, { signal }),
+          };
+        }
+        logger.error("Failed to get spoken answer:", error);
+        throw wrapError(error, WolframAPIEndpoint.SPOKEN);
+      }
+    });
+  }
+
+  /**
+   * Runs a full query for input the Short Answer or Spoken API did not
+   * understand and collects Wolfram's suggestions from it. Best effort: a
+   * failing query yields no suggestions rather than an error.
+   */
+  async getSuggestions(
+    input: string,
+    context: WolframCallContext = {},
+  ): Promise<WolframSuggestions> {
+    try {
+      return extractSuggestions(await this.query(input, {}, context));
+    } catch (error) {
+      if (error instanceof WolframAbortedError) throw error;
+      logger.warn(`⚠️ Could not fetch suggestions for "${input}": ${error}`);
+      return emptySuggestions();
+    }
+  }
+
+  /**
+   * Conversational API - supports multi-turn conversations. Follow-ups go
+   * to the host that answered the previous turn, together with its `s`
+   * token; an expired conversation is restarted once without them.
+   */
+  async conversationalQuery(
+    input: string,
+    sessionKey: string,
+    { signal }: WolframCallContext = {},
+  ): Promise<WolframConversationResult> {
+    try {
+      logger.log(`💬 Conversational query in ${sessionKey}: "${input}"`);
+
+      const state = await this.conversations.get(sessionKey);
+      let result = await this.fetchConversation(input, state, signal);
+
+      if (state && result.expired) {
+        logger.log(
+          `🔄 Conversation ${state.conversationID} expired, starting a new one`,
+        );
+        this.conversations.delete(sessionKey);
+        result = await this.fetchConversation(input, undefined, signal);
+      }
+
+      if (result.conversationID && result.host && !result.error) {
+        this.conversations.set(sessionKey, {
+          conversationID: result.conversationID,
+          host: result.host,
+          s: result.s,
+        });
+      }
+
+      logger.log(`✅ Conversational response received`);
+      return result;
+    } catch (error) {
+      logger.error("Error in conversational query:", error);
+      throw wrapError(error, WolframAPIEndpoint.CONVERSATION);
+    }
+  }
+
+  /**
+   * LLM API - a single text answer sized for language model prompts
+   */
+  async llmQuery(
+    input: string,
+    maxChars: number = 2000,
+    { signal }: WolframCallContext = {},
+  ): Promise<string> {
+    try {
+      logger.log(`🤖 LLM API query: "${input}"`);
+
+      const params: WolframLLMOptions = {
+        input,
+        appid: this.config.WOLFRAM_APP_ID,
+        maxchars: maxChars,
+      };
+      const llmUrl =
+        this.config.WOLFRAM_LLM_API_ENDPOINT || WolframAPIEndpoint.LLM;
+      const headers = this.config.WOLFRAM_CLOUD_API_KEY
+        ? {
+            "X-Wolfram-Cloud-Api-Key": this.config.WOLFRAM_CLOUD_API_KEY,
+          }
+        : undefined;
+      const response = await this.getWithRetry(
+        this.transport,
+        llmUrl,
+        { params, headers, signal },
+        WolframAPIEndpoint.LLM,
+      );
+
+      return typeof response.data === "string"
+        ? response.data
+        : String(response.data?.result ?? "");
+    } catch (error) {
+      logger.error("Error in LLM API query:", error);
+      throw wrapError(error, WolframAPIEndpoint.LLM);
+    }
+  }
+
+  private async fetchConversation(
+    input: string,
+    state?: WolframConversationState,
+    signal?: AbortSignal,
+  ): Promise<WolframConversationResult> {
+    const endpoint =
+      this.config.WOLFRAM_CONVERSATION_ENDPOINT ||
+      WolframAPIEndpoint.CONVERSATION;
+    const params: WolframConversationOptions = {
+      i: input,
+      appid: this.config.WOLFRAM_APP_ID,
+    };
+
+    let url = endpoint;
+    if (state) {
+      // Keep the configured protocol, port and path; only the host moves
+      const followUp = new URL(endpoint);
+      followUp.host = state.host;
+      url = followUp.toString();
+      params.conversationid = state.conversationID;
+      if (state.s) params.s = state.s;
+    }
+
+    const response = await this.getWithRetry(
+      this.transport,
+      url,
+      { params, signal },
+      WolframAPIEndpoint.CONVERSATION,
+    );
+    if (!response.data || typeof response.data !== "object") {
+      throw new WolframMalformedResponseError(
+        "Conversation API did not return a JSON object",
+        { endpoint: WolframAPIEndpoint.CONVERSATION },
+      );
+    }
+    return response.data as WolframConversationResult;
+  }
+
+  /**
+   * Ends the Wolfram conversation for a session key so the next question
+   * starts a new one. Returns whether there was a live conversation.
+   */
+  async clearConversation(sessionKey: string): Promise<boolean> {
+    const active = !!(await this.conversations.get(sessionKey));
+    this.conversations.delete(sessionKey);
+    logger.log(`🔄 Cleared conversation ${sessionKey}`);
+    return active;
+  }
+
+  /**
+   * Specialized method for solving mathematical equations
+   */
+  async solveMath(
+    equation: string,
+    { signal }: WolframCallContext = {},
+  ): Promise<string> {
+    const cacheKey = this.cacheKey("solve", equation);
+
+    const cached = this.getCached(cacheKey);
+    if (cached) {
+      return cached as string;
+    }
+
+    return this.coalesce(cacheKey, signal, async (signal) => {
+      try {
+        logger.log(`🧮 Solving equation: "${equation}"`);
+
+        const result = await this.query(`solve ${equation}`, {}, { signal });
+
+        if (!result.success || !result.pods) {
+          return "Could not solve the equation";
+        }
+
+        // Look for solution pods
+        const solutionPod = result.pods.find(
+          (pod) =>
+            pod.title === "Solution" ||
+            pod.title === "Result" ||
+            pod.title.includes("solution"),
+        );
+
+        if (solutionPod && solutionPod.subpods && solutionPod.subpods[0]) {
+          const solution =
+            solutionPod.subpods[0].plaintext || "No solution found";
+          this.setCached(cacheKey, solution, {
+            method: "solveMath",
+            input: equation,
+            pods: result.pods,
+          });
+          return solution;
+        }
+
+        return "No solution found";
+      } catch (error) {
+        logger.error("Error solving equation:", error);
+        throw wrapError(error, WolframAPIEndpoint.QUERY);
+      }
+    });
+  }
+
+  /**
+   * Get step-by-step solutions for problems
+   */
+  async getStepByStep(
+    problem: string,
+    { signal }: WolframCallContext = {},
+  ): Promise<string[]> {
+    const cacheKey = this.cacheKey("steps", problem);
+
+    const cached = this.getCached(cacheKey);
+    if (cached) {
+      return cached as string[];
+    }
+
+    return this.coalesce(cacheKey, signal, async (signal) => {
+      try {
+        logger.log(`📋 Getting step-by-step solution for: "${problem}"`);
+
+        const result = await this.query(
+          problem,
+          {
+            podstate: STEP_BY_STEP_STATE,
+          },
+          { signal },
+        );
+
+        if (!result.success || !result.pods) {
+          return ["Could not generate step-by-step solution"];
+        }
+
+        const steps: string[] = [];
+
+        // Look for step-by-step pods
+        for (const pod of result.pods) {
+          if (
+            pod.title.includes("step") ||
+            pod.title.includes("Step") ||
+            pod.scanner === "Solve"
+          ) {
+            for (const subpod of pod.subpods || []) {
+              if (subpod.plaintext) {
+                steps.push(subpod.plaintext);
+              }
+            }
+          }
+        }
+
+        if (steps.length === 0) {
+          // Fallback to all pods
+          for (const pod of result.pods) {
+            if (pod.subpods) {
+              for (const subpod of pod.subpods) {
+                if (subpod.plaintext) {
+                  steps.push(`${pod.title}: ${subpod.plaintext}`);
+                }
+              }
+            }
+          }
+        }
+
+        this.setCached(cacheKey, steps, {
+          method: "getStepByStep",
+          input: problem,
+          pods: result.pods,
+        });
+        return steps.length > 0
+          ? steps
+          : ["No step-by-step solution available"];
+      } catch (error) {
+        logger.error("Error getting step-by-step solution:", error);
+        throw wrapError(error, WolframAPIEndpoint.QUERY);
+      }
+    });
+  }
+
+  /**
+   * Compute mathematical expressions
+   */
+  async compute(
+    expression: string,
+    context: WolframCallContext = {},
+  ): Promise<string> {
+    const result = await this.computeWithSuggestions(expression, context);
+    return result.success && result.answer
+      ? result.answer
+      : "Could not compute expression";
+  }
+
+  /**
+   * Like compute(), but reports input Wolfram did not understand together
+   * with its suggestions instead of a placeholder answer
+   */
+  async computeWithSuggestions(
+    expression: string,
+    { signal }: WolframCallContext = {},
+  ): Promise<WolframComputeResult> {
+    logger.log(`🔢 Computing: "${expression}"`);
+    return this.answerWithStrategy(
+      "compute",
+      expression,
+      this.config.WOLFRAM_COMPUTE_STRATEGY ?? ["short", "query"],
+      signal,
+    );
+  }
+
+  /**
+   * Concise answer to a simple question, from the APIs listed in
+   * WOLFRAM_QUICK_ANSWER_STRATEGY
+   */
+  async quickAnswer(
+    question: string,
+    { signal }: WolframCallContext = {},
+  ): Promise<WolframComputeResult> {
+    logger.log(`⚡ Getting quick answer for: "${question}"`);
+    return this.answerWithStrategy(
+      "quickAnswer",
+      question,
+      this.config.WOLFRAM_QUICK_ANSWER_STRATEGY ?? ["short"],
+      signal,
+    );
+  }
+
+  /**
+   * Tries each source in turn until one answers. Input a text API did not
+   * understand, an outage or an open circuit on one endpoint move on to the
+   * next source; account-wide problems do not. Suggestions come from the
+   * full query when the strategy has one, or from one extra query otherwise.
+   */
+  private async answerWithStrategy(
+    method: string,
+    input: string,
+    strategy: WolframAnswerSource[],
+    signal?: AbortSignal,
+  ): Promise<WolframComputeResult> {
+    const cacheKey = this.cacheKey(method, input);
+
+    const cached = this.getCached(cacheKey);
+    if (cached) {
+      return { success: true, answer: cached as string };
+    }
+
+    return this.coalesce(cacheKey, signal, async (signal) => {
+      let notUnderstood = false;
+      let lastError: unknown;
+
+      for (const source of strategy) {
+        try {
+          if (source === "query") {
+            const result = await this.query(input, {}, { signal });
+            const answer = this.answerFromPods(result.pods);
+            if (result.success && answer) {
+              this.setCached(cacheKey, answer, {
+                method,
+                input,
+                pods: result.pods,
+              });
+              return { success: true, answer, source };
+            }
+            return {
+              success: false,
+              notUnderstood: notUnderstood || !result.success,
+              suggestions: extractSuggestions(result),
+            };
+          }
+
+          const endpoint =
+            source === "result"
+              ? WolframAPIEndpoint.RESULT
+              : WolframAPIEndpoint.SHORT;
+          const answer = await this.fetchTextAnswer(endpoint, input, signal);
+          if (answer) {
+            this.setCached(cacheKey, answer, { method, input });
+            return { success: true, answer, source };
+          }
+        } catch (error) {
+          if (
+            error instanceof WolframAbortedError ||
+            error instanceof WolframQuotaExceededError ||
+            error instanceof WolframInvalidAppIdError ||
+            source === "query"
+          ) {
+            logger.error(`Error in ${method}:`, error);
+            throw wrapError(error, WolframAPIEndpoint.QUERY);
+          }
+          if (error instanceof WolframInputNotUnderstoodError) {
+            notUnderstood = true;
+          } else {
+            lastError = error;
+          }
+        }
+      }
+
+      if (!notUnderstood && lastError) {
+        logger.error(`Error in ${method}:`, lastError);
+        throw wrapError(lastError, WolframAPIEndpoint.SHORT);
+      }
+      return {
+        success: false,
+        notUnderstood,
+        suggestions: notUnderstood
+          ? await this.getSuggestions(input, { signal })
+          : emptySuggestions(),
+      };
+    });
+  }
+
+  /**
+   * Plaintext of the result/value pod of a full query
+   */
+  private answerFromPods(pods: WolframPod[] | undefined): string | undefined {
+    const resultPod = (pods || []).find(
+      (pod) =>
+        pod.title === "Result" ||
+        pod.title === "Value" ||
+        pod.title === "Decimal approximation",
+    );
+    if (!resultPod?.subpods?.[0]) return undefined;
+    return resultPod.subpods[0].plaintext || "No result";
+  }
+
+  /**
+   * Get facts about a topic
+   */
+  async getFacts(
+    topic: string,
+    { signal }: WolframCallContext = {},
+  ): Promise<string[]> {
+    const cacheKey = this.cacheKey("facts", topic);
+
+    const cached = this.getCached(cacheKey);
+    if (cached) {
+      return cached as string[];
+    }
+
+    return this.coalesce(cacheKey, signal, async (signal) => {
+      try {
+        logger.log(`📚 Getting facts about: "${topic}"`);
+
+        const result = await this.query(topic, {}, { signal });
+
+        if (!result.success || !result.pods) {
+          return [`No facts found about ${topic}`];
+        }
+
+        const facts: string[] = [];
+
+        // Collect facts from various pods
+        for (const pod of result.pods) {
+          if (pod.subpods) {
+            for (const subpod of pod.subpods) {
+              if (subpod.plaintext && subpod.plaintext.length > 10) {
+                facts.push(`${pod.title}: ${subpod.plaintext}`);
+              }
+            }
+          }
+        }
+
+        this.setCached(cacheKey, facts, {
+          method: "getFacts",
+          input: topic,
+          pods: result.pods,
+        });
+        return facts.length > 0 ? facts : [`No facts found about ${topic}`];
+      } catch (error) {
+        logger.error("Error getting facts:", error);
+        throw wrapError(error, WolframAPIEndpoint.QUERY);
+      }
+    });
+  }
+
+  /**
+   * Analyze data and provide statistical insights
+   */
+  async analyzeData(
+    data: string,
+    { signal }: WolframCallContext = {},
+  ): Promise<WolframAnalysisResult> {
+    const cacheKey = this.cacheKey("analyze", data);
+
+    const cached = this.getCached(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    return this.coalesce(cacheKey, signal, async (signal) => {
+      try {
+        logger.log(`📊 Analyzing data: "${data}"`);
+
+        const result = await this.query(`statistics ${data}`, {}, { signal });
+
+        if (!result.success || !result.pods) {
+          return {
+            input: data,
+            results: {},
+            error: "Could not analyze data",
+          };
+        }
+
+        const analysis: WolframAnalysisResult = {
+          input: data,
+          results: {},
+        };
+
+        // Extract statistical results
+        for (const pod of result.pods) {
+          if (pod.subpods) {
+            const podData: string[] = [];
+            for (const subpod of pod.subpods) {
+              if (subpod.plaintext) {
+                podData.push(subpod.plaintext);
+              }
+            }
+            if (podData.length > 0) {
+              analysis.results[pod.title] = podData;
+            }
+          }
+        }
+
+        this.setCached(cacheKey, analysis, {
+          method: "analyzeData",
+          input: data,
+          pods: result.pods,
+        });
+        return analysis;
+      } catch (error) {
+        logger.error("Error analyzing data:", error);
+        throw wrapError(error, WolframAPIEndpoint.QUERY);
+      }
+    });
+  }
+
+  /**
+   * Runs many inputs with at most `concurrency` of them in flight. Their
+   * requests go through the same rate limiter and quota as any other, and
+   * identical items are fetched once. Results keep the order of `items`;
+   * an item that fails carries its WolframError instead of failing the
+   * whole batch. Once `options.signal` fires, the remaining items fail
+   * with WolframAbortedError.
+   */
+  async batch(
+    items: WolframBatchItem[],
+    options: WolframBatchOptions = {},
+  ): Promise<WolframBatchResult[]> {
+    const concurrency = Math.max(
+      1,
+      Math.floor(options.concurrency ?? this.config.WOLFRAM_BATCH_CONCURRENCY),
+    );
+    const results: WolframBatchResult[] = new Array(items.length);
+    const runs = new Map<string, Promise<any>>(); // item key -> shared run
+    let next = 0;
+
+    logger.log(
+      `📦 Running ${items.length} Wolfram requests, ${concurrency} at a time`,
+    );
+
+    const worker = async (): Promise<void> => {
+      while (next < items.length) {
+        const index = next++;
+        const item = items[index];
+        const method = item.method ?? "query";
+        const key = stableStringify([
+          method,
+          item.input,
+          item.options ?? {},
+          item.maxChars ?? null,
+        ]);
+
+        let run = runs.get(key);
+        if (!run) {
+          run = this.runBatchItem(method, item, { signal: options.signal });
+          runs.set(key, run);
+        }
+
+        try {
+          const result = await run;
+          results[index] = {
+            index,
+            input: item.input,
+            method,
+            success: true,
+            result,
+          };
+        } catch (error) {
+          results[index] = {
+            index,
+            input: item.input,
+            method,
+            success: false,
+            error: wrapError(error, BATCH_ENDPOINTS[method] ?? "batch"),
+          };
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, items.length) }, worker),
+    );
+    return results;
+  }
+
+  private runBatchItem(
+    method: WolframBatchMethod,
+    item: WolframBatchItem,
+    context: WolframCallContext,
+  ): Promise<any> {
+    switch (method) {
+      case "query":
+        return this.query(item.input, item.options, context);
+      case "short":
+        return this.getShortAnswer(item.input, context);
+      case "result":
+        return this.getResult(item.input, context);
+      case "spoken":
+        return this.getSpokenAnswer(item.input, context);
+      case "simple":
+        return this.getSimpleAnswer(item.input, context);
+      case "llm":
+        return this.llmQuery(item.input, item.maxChars, context);
+      case "solve":
+        return this.solveMath(item.input, context);
+      case "steps":
+        return this.getStepByStep(item.input, context);
+      case "compute":
+        return this.computeWithSuggestions(item.input, context);
+      case "facts":
+        return this.getFacts(item.input, context);
+      case "analyze":
+        return this.analyzeData(item.input, context);
+      default:
+        return Promise.reject(
+          new WolframApiError(`Unknown batch method "${method}"`),
+        );
+    }
+  }
+
+  /**
+   * Format Wolfram Alpha results for display
+   */
+  formatResult(result: WolframAlphaQueryResult): string {
+    if (!result.success) {
+      return "No results found";
+    }
+
+    const output: string[] = [];
+
+    if (result.pods) {
+      // Prefer primary pods; skip "Input" pods explicitly
+      const pods = result.pods.filter((p) => p.title !== "Input");
+      const primaryPods = pods.filter((p) => p.primary);
+      const podsToRender = primaryPods.length > 0 ? primaryPods : pods;
+
+      for (const pod of podsToRender) {
+        const text = this.formatPod(pod);
+        if (text) output.push(text);
+      }
+    }
+
+    if (result.assumptions) {
+      output.push("\n*Assumptions:*");
+      for (const assumption of result.assumptions) {
+        if (assumption.values) {
+          output.push(`- ${assumption.values.map((v) => v.desc).join(", ")}`);
+        }
+      }
+    }
+
+    if (result.warnings) {
+      output.push("\n*Warnings:*");
+      for (const warning of result.warnings) {
+        output.push(`- ${warning.text}`);
+      }
+    }
+
+    return output.join("\n") || "No results to display";
+  }
+
+  /**
+   * Title and plaintext of a single pod, or "" for pods without subpods
+   * (including async pods that have not loaded)
+   */
+  formatPod(pod: WolframPod): string {
+    if (!pod.subpods || pod.subpods.length === 0) return "";
+    const output = [`**${pod.title}**`];
+    for (const subpod of pod.subpods) {
+      if (subpod.plaintext) {
+        output.push(subpod.plaintext);
+      }
+    }
+    return output.join("\n");
+  }
+
+  /**
+   * Cache management methods
+   */
+  private cacheKey(
+    prefix: string,
+    input: string,
+    options?: Record<string, any>,
+  ): string {
+    return buildCacheKey(
+      prefix,
+      input,
+      this.config.WOLFRAM_CACHE_KEY_NORMALIZATION ?? "full",
+      options,
+    );
+  }
+
+  private getCached(key: string): any | null {
+    const entry = this.cache.get(key);
+
+    if (!entry) {
+      this.cacheMisses += 1;
+      return null;
+    }
+
+    if (Date.now() - entry.timestamp > entry.ttl) {
+      this.cache.delete(key);
+      this.cacheMisses += 1;
+      return null;
+    }
+
+    this.cacheHits += 1;
+    return entry.result;
+  }
+
+  private setCached(
+    key: string,
+    result: any,
+    context: WolframTtlContext,
+  ): void {
+    const ttl = this.ttlPolicy.resolve(context);
+    if (ttl <= 0) return;
+
+    // Clean old cache entries first so the store's LRU eviction (entry and
+    // byte limits) only ever drops live ones
+    this.cleanCache();
+
+    this.cache.set(key, {
+      query: key,
+      result,
+      timestamp: Date.now(),
+      ttl,
+    });
+  }
+
+  private cleanCache(): void {
+    const now = Date.now();
+
+    for (const [key, entry] of this.cache.entries()) {
+      if (now - entry.timestamp > entry.ttl) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Clear all caches
+   */
+  clearCache(): void {
+    this.cache.clear();
+    this.conversations.clear();
+    logger.log("🗑️ Wolfram cache cleared");
+  }
+
+  /**
+   * Cache, quota, retry and circuit breaker statistics
+   */
+  getStats(): WolframServiceStats {
+    const keys: Record<string, WolframCoalescingKeyStats> = {};
+    for (const [key, stats] of this.coalesceStats.entries()) {
+      keys[key] = { ...stats };
+    }
+
+    const circuitBreakers: Record<string, WolframCircuitBreakerStats> = {};
+    for (const [endpoint, breaker] of this.circuitBreakers.entries()) {
+      circuitBreakers[endpoint] = breaker.getStats();
+    }
+    const lookups = this.cacheHits + this.cacheMisses;
+
+    return {
+      cacheSize: this.cache.size,
+      cacheBytes: this.cache.bytes,
+      cacheBackend: this.cache.backend,
+      cacheHits: this.cacheHits,
+      cacheMisses: this.cacheMisses,
+      cacheHitRatio: lookups > 0 ? this.cacheHits / lookups : 0,
+      cacheEvictions: this.cache.evictions,
+      activeConversations: this.conversations.size,
+      coalescing: {
+        inFlight: this.inflight.size,
+        coalesced: this.coalescedRequests,
+        keys,
+      },
+      quota: this.quota.getUsage(),
+      appIds: this.appIds.getStats(this.quota.getUsage()),
+      circuitBreakers,
+      retries: {
+        ...this.retryStats,
+        byReason: { ...this.retryStats.byReason },
+      },
+      endpoints: this.metrics.getStats(),
+      errors: this.metrics.errorTotals(),
+      config: {
+        units: this.config.WOLFRAM_UNITS,
+        location: this.config.WOLFRAM_LOCATION,
+        maxResults: this.config.WOLFRAM_MAX_RESULTS,
+      },
+    };
+  }
+
+  /**
+   * getStats() in the Prometheus text exposition format
+   */
+  getPrometheusMetrics(): string {
+    return renderPrometheusMetrics(this.getStats());
+  }
+
+  /**
+   * Waits for pending writes and background pod loads so nothing is lost
+   * when the process exits
+   */
+  async close(): Promise<void> {
+    await this.cache.flush();
+    await this.quota.flush();
+    await Promise.all([...this.asyncPodLoads]);
+    await this.assumptionPreferences.flush();
+    await this.conversations.flush();
+    if (
+      this.transport instanceof RecordingTransport ||
+      this.transport instanceof AuditTransport
+    ) {
+      await this.transport.flush();
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { logger } from "@elizaos/core";
+import { WolframConfig } from "./environment";
+import {
+  WolframConversationLimits,
+  WolframConversationSession,
+  WolframConversationState,
+  WolframStateStore,
+} from "./types";
+
+export const DEFAULT_CONVERSATION_TTL = 15 * 60 * 1000;
+export const DEFAULT_MAX_CONVERSATIONS = 500;
+
+const RUNTIME_CONVERSATION_PREFIX = "wolfram:conversation:";
+
+/**
+ * Open Wolfram conversations by session key. Sessions expire after an idle
+ * period, the least recently used ones are dropped past the cap, and each
+ * one is mirrored in the ElizaOS runtime cache so restarts keep the thread.
+ */
+export class WolframConversationSessions {
+  readonly ttl: number;
+  readonly maxSessions: number;
+  // Map iteration order doubles as recency order: first key is least recent
+  private sessions: Map<string, WolframConversationSession> = new Map();
+  // Last pending runtime cache write per key, so reads never see stale data
+  private writes: Map<string, Promise<unknown>> = new Map();
+
+  constructor(
+    private readonly runtime: WolframStateStore,
+    limits: WolframConversationLimits = {},
+    private readonly now: () => number = Date.now,
+  ) {
+    this.ttl = limits.ttl ?? DEFAULT_CONVERSATION_TTL;
+    this.maxSessions = limits.maxSessions ?? DEFAULT_MAX_CONVERSATIONS;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * The live session for a key, loading it from the runtime cache if this
+   * process has not seen it yet. Expired sessions are removed.
+   */
+  async get(key: string): Promise<WolframConversationSession | undefined> {
+    const session = this.sessions.get(key) ?? (await this.read(key));
+    if (!session) return undefined;
+
+    if (this.isExpired(session)) {
+      this.delete(key);
+      return undefined;
+    }
+
+    this.sessions.delete(key);
+    this.sessions.set(key, session);
+    return session;
+  }
+
+  set(key: string, state: WolframConversationState): void {
+    const session: WolframConversationSession = {
+      conversationID: state.conversationID,
+      host: state.host,
+      s: state.s,
+      updatedAt: this.now(),
+    };
+    this.sessions.delete(key);
+    this.sessions.set(key, session);
+    this.write(key, () =>
+      this.runtime.setCache(RUNTIME_CONVERSATION_PREFIX + key, session),
+    );
+    this.evict();
+  }
+
+  /**
+   * Forgets a session here and in the runtime cache. Returns whether this
+   * process knew about it.
+   */
+  delete(key: string): boolean {
+    const deleted = this.sessions.delete(key);
+    this.write(key, () =>
+      this.runtime.deleteCache(RUNTIME_CONVERSATION_PREFIX + key),
+    );
+    return deleted;
+  }
+
+  clear(): void {
+    for (const key of [...this.sessions.keys()]) {
+      this.delete(key);
+    }
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all([...this.writes.values()]);
+  }
+
+  private isExpired(session: WolframConversationSession): boolean {
+    return this.ttl > 0 && this.now() - session.updatedAt > this.ttl;
+  }
+
+  private evict(): void {
+    while (this.sessions.size > this.maxSessions) {
+      const oldestKey = this.sessions.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.delete(oldestKey);
+    }
+  }
+
+  private async read(
+    key: string,
+  ): Promise<WolframConversationSession | undefined> {
+    await this.writes.get(key);
+    try {
+      const stored = await this.runtime.getCache<WolframConversationSession>(
+        RUNTIME_CONVERSATION_PREFIX + key,
+      );
+      return stored?.conversationID && stored.host ? stored : undefined;
+    } catch (error) {
+      logger.warn(`⚠️ Could not load Wolfram conversation: ${error}`);
+      return undefined;
+    }
+  }
+
+  private write(key: string, task: () => Promise<unknown>): void {
+    const written = (this.writes.get(key) ?? Promise.resolve())
+      .then(task)
+      .catch((error) => {
+        logger.error("Failed to persist Wolfram conversation:", error);
+      })
+      .finally(() => {
+        if (this.writes.get(key) === written) this.writes.delete(key);
+      });
+    this.writes.set(key, written);
+  }
+}
+
+/**
+ * Builds the session store from the WOLFRAM_CONVERSATION_* settings
+ */
+export function createConversationSessions(
+  config: WolframConfig,
+  runtime: WolframStateStore,
+): WolframConversationSessions {
+  return new WolframConversationSessions(runtime, {
+    ttl: config.WOLFRAM_CONVERSATION_TTL,
+    maxSessions: config.WOLFRAM_CONVERSATION_MAX_SESSIONS,
+  });
+}
@@ -1,5 +1,6 @@
 import { IAgentRuntime } from "@elizaos/core";
 import { z } from "zod";
+import { WolframServiceOptions } from "./types";
 
 /**
  * Schema for Wolfram API configuration
@@ -8,6 +9,28 @@ const wolframEnvSchema = z.object({
   // Wolfram Alpha API configuration
   WOLFRAM_APP_ID: z.string().min(1).describe("Wolfram Alpha App ID"),
 
+  // Optional: More App IDs to rotate through, each with an optional monthly
+  // limit ("APPID" or "APPID:limit", comma-separated)
+  WOLFRAM_APP_IDS: z
+    .array(
+      z.object({
+        appId: z.string().min(1),
+        monthlyLimit: z.number().int().min(0).optional(),
+      }),
+    )
+    .optional()
+    .default([]),
+
+  // Optional: How the next App ID is picked when several are configured
+  WOLFRAM_APP_ID_STRATEGY: z
+    .enum(["round-robin", "quota"])
+    .optional()
+    .default("round-robin"),
+
+  // Optional: How long in milliseconds an App ID that was rejected or ran
+  // out of quota is skipped while others are available
+  WOLFRAM_APP_ID_COOLDOWN: z.number().min(0).optional().default(3600000),
+
   // Optional: Wolfram Cloud configuration for advanced features
   WOLFRAM_CLOUD_API_KEY: z
     .string()
@@ -61,10 +84,223 @@ const wolframEnvSchema = z.object({
 
   // Optional: Max results per query
   WOLFRAM_MAX_RESULTS: z.number().min(1).max(10).optional().default(5),
+
+  // Optional: HTTP transport (live, record to fixtures, or replay fixtures)
+  WOLFRAM_TRANSPORT: z
+    .enum(["http", "record", "replay"])
+    .optional()
+    .default("http"),
+
+  // Optional: Fixture file used by the record and replay transports
+  WOLFRAM_FIXTURE_PATH: z
+    .string()
+    .optional()
+    .describe("Path to the JSON fixture file for record/replay transports"),
+
+  // Optional: Where cached results live (memory is lost on restart)
+  WOLFRAM_CACHE_BACKEND: z
+    .enum(["memory", "runtime", "file"])
+    .optional()
+    .default("memory"),
+
+  // Optional: Cache file used by the file backend
+  WOLFRAM_CACHE_PATH: z
+    .string()
+    .optional()
+    .describe("Path to the JSON cache file for the file cache backend"),
+
+  // Optional: Cache limits (least recently used entries are evicted first)
+  WOLFRAM_CACHE_MAX_ENTRIES: z.number().min(1).optional().default(200),
+  WOLFRAM_CACHE_MAX_BYTES: z
+    .number()
+    .min(1024)
+    .optional()
+    .default(5 * 1024 * 1024),
+
+  // Optional: TTL for results no TTL rule matches
+  WOLFRAM_CACHE_TTL: z.number().min(0).optional().default(3600000),
+
+  // Optional: TTL rules checked before the built-in ones (JSON array)
+  WOLFRAM_CACHE_TTL_RULES: z
+    .array(
+      z.object({
+        name: z.string().optional(),
+        method: z.union([z.string(), z.array(z.string())]).optional(),
+        scanner: z.union([z.string(), z.array(z.string())]).optional(),
+        podId: z.union([z.string(), z.array(z.string())]).optional(),
+        input: z.string().optional(),
+        ttl: z.union([z.number().min(0), z.literal("never")]),
+      }),
+    )
+    .optional()
+    .default([]),
+
+  // Optional: Cache key canonicalization; use preserve-case or off when
+  // case matters (e.g. chemical formulas like "Co" vs "CO")
+  WOLFRAM_CACHE_KEY_NORMALIZATION: z
+    .enum(["full", "preserve-case", "off"])
+    .optional()
+    .default("full"),
+
+  // Optional: Per App ID request rate (0 disables) and burst size
+  WOLFRAM_RATE_LIMIT_PER_SECOND: z.number().min(0).optional().default(5),
+  WOLFRAM_RATE_LIMIT_BURST: z.number().min(1).optional(),
+
+  // Optional: Monthly call budget per App ID (0 disables) and the fractions
+  // of it at which to warn and to refuse further requests
+  WOLFRAM_MONTHLY_QUOTA: z.number().min(0).optional().default(0),
+  WOLFRAM_QUOTA_SOFT_LIMIT: z.number().min(0).max(1).optional().default(0.8),
+  WOLFRAM_QUOTA_HARD_LIMIT: z.number().min(0).max(1).optional().default(1),
+
+  // Optional: Consecutive failures that open an endpoint's circuit, and how
+  // long (ms) it stays open before a probe request is let through
+  WOLFRAM_CIRCUIT_FAILURE_THRESHOLD: z.number().min(1).optional().default(5),
+  WOLFRAM_CIRCUIT_RESET_TIMEOUT: z.number().min(0).optional().default(30000),
+
+  // Optional: Retry policy (attempts include the first request; delays in ms)
+  WOLFRAM_RETRY_MAX_ATTEMPTS: z.number().min(1).max(10).optional().default(3),
+  WOLFRAM_RETRY_BASE_DELAY: z.number().min(0).optional().default(250),
+  WOLFRAM_RETRY_MAX_DELAY: z.number().min(0).optional().default(10000),
+  WOLFRAM_RETRY_STATUSES: z
+    .array(z.number().int().min(400).max(599))
+    .optional()
+    .describe("Comma-separated HTTP status codes to retry"),
+  WOLFRAM_RETRY_ERROR_CODES: z
+    .array(z.string().min(1))
+    .optional()
+    .describe("Comma-separated network error codes to retry"),
+
+  // Optional: Ask for slow pods asynchronously and wait this long (ms) for
+  // them before answering; later pods follow as separate messages
+  WOLFRAM_ASYNC_PODS: z.boolean().optional().default(false),
+  WOLFRAM_ASYNC_WAIT: z.number().min(0).optional().default(3000),
+
+  // Optional: Whether interpretations picked with WOLFRAM_DISAMBIGUATE are
+  // remembered per user or shared by everyone in a room
+  WOLFRAM_ASSUMPTION_SCOPE: z.enum(["user", "room"]).optional().default("user"),
+
+  // Optional: Whether each user gets their own Wolfram conversation in a
+  // room or everyone in the room shares one
+  WOLFRAM_CONVERSATION_SCOPE: z
+    .enum(["user", "room"])
+    .optional()
+    .default("user"),
+
+  // Optional: Idle time in milliseconds before a conversation is forgotten
+  WOLFRAM_CONVERSATION_TTL: z.number().min(0).optional().default(900000),
+
+  // Optional: Maximum number of conversations kept at once
+  WOLFRAM_CONVERSATION_MAX_SESSIONS: z.number().min(1).optional().default(500),
+
+  // Optional: JSONL file recording every exchange with Wolfram (off when unset)
+  WOLFRAM_AUDIT_LOG_PATH: z.string().min(1).optional(),
+
+  // Optional: Size in bytes at which the audit log is rotated
+  WOLFRAM_AUDIT_LOG_MAX_BYTES: z
+    .number()
+    .min(1024)
+    .optional()
+    .default(10 * 1024 * 1024),
+
+  // Optional: Rotated audit log files kept next to the current one
+  WOLFRAM_AUDIT_LOG_MAX_FILES: z.number().min(1).max(100).optional().default(5),
+
+  // Optional: Serve Prometheus metrics at /wolfram/metrics, and whether
+  // without the agent server's authentication
+  WOLFRAM_METRICS_ROUTE: z.boolean().optional().default(false),
+  WOLFRAM_METRICS_ROUTE_PUBLIC: z.boolean().optional().default(false),
+
+  // Optional: Upper bounds (ms) of the request latency histogram buckets
+  WOLFRAM_METRICS_BUCKETS: z.array(z.number().positive()).min(1).optional(),
+
+  // Optional: Items of a batch() call in flight at once
+  WOLFRAM_BATCH_CONCURRENCY: z.number().min(1).max(20).optional().default(4),
+
+  // Optional: APIs compute and quick answers try, in order, until one
+  // answers (result = /result, short = /short, query = full query)
+  WOLFRAM_COMPUTE_STRATEGY: z
+    .array(z.enum(["result", "short", "query"]))
+    .min(1)
+    .optional()
+    .default(["short", "query"]),
+  WOLFRAM_QUICK_ANSWER_STRATEGY: z
+    .array(z.enum(["result", "short", "query"]))
+    .min(1)
+    .optional()
+    .default(["short"]),
+});
+
+/**
+ * Cross-field rules that a plain object schema cannot express
+ */
+const wolframConfigSchema = wolframEnvSchema.superRefine((config, ctx) => {
+  if (config.WOLFRAM_TRANSPORT !== "http" && !config.WOLFRAM_FIXTURE_PATH) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["WOLFRAM_FIXTURE_PATH"],
+      message: "Required for the record and replay transports",
+    });
+  }
+  if (config.WOLFRAM_CACHE_BACKEND === "file" && !config.WOLFRAM_CACHE_PATH) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["WOLFRAM_CACHE_PATH"],
+      message: "Required for the file cache backend",
+    });
+  }
+  if (config.WOLFRAM_QUOTA_SOFT_LIMIT > config.WOLFRAM_QUOTA_HARD_LIMIT) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["WOLFRAM_QUOTA_SOFT_LIMIT"],
+      message: "Must not exceed WOLFRAM_QUOTA_HARD_LIMIT",
+    });
+  }
 });
 
 export type WolframConfig = z.infer<typeof wolframEnvSchema>;
 
+/**
+ * Parses a JSON setting; character settings may already hold the object.
+ * Unparseable strings are passed through so schema validation reports them.
+ */
+function parseJsonSetting(value: any): unknown {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Splits a comma-separated setting; character settings may already hold
+ * an array
+ */
+function parseListSetting(value: any): unknown {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") return value;
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parses WOLFRAM_APP_IDS entries written as "APPID" or "APPID:limit"
+ */
+function parseAppIdsSetting(value: any): unknown {
+  const entries = parseListSetting(value);
+  if (!Array.isArray(entries)) return entries;
+  return entries.map((entry) => {
+    if (typeof entry !== "string") return entry;
+    const [appId, limit] = entry.split(":").map((part) => part.trim());
+    return limit === undefined
+      ? { appId }
+      : { appId, monthlyLimit: Number(limit) };
+  });
+}
+
 /**
  * Validates Wolfram configuration from runtime environment
  */
@@ -72,10 +308,17 @@ export async function validateWolframConfig(
   runtime: IAgentRuntime,
 ): Promise<WolframConfig> {
   try {
+    const appIds = parseAppIdsSetting(runtime.getSetting("WOLFRAM_APP_IDS"));
     const config = {
       WOLFRAM_APP_ID:
         runtime.getSetting("WOLFRAM_APP_ID") ||
-        runtime.getSetting("WOLFRAM_ALPHA_APP_ID"),
+        runtime.getSetting("WOLFRAM_ALPHA_APP_ID") ||
+        (Array.isArray(appIds) ? appIds[0]?.appId : undefined),
+      WOLFRAM_APP_IDS: appIds,
+      WOLFRAM_APP_ID_STRATEGY: runtime.getSetting("WOLFRAM_APP_ID_STRATEGY"),
+      WOLFRAM_APP_ID_COOLDOWN: runtime.getSetting("WOLFRAM_APP_ID_COOLDOWN")
+        ? parseInt(runtime.getSetting("WOLFRAM_APP_ID_COOLDOWN"), 10)
+        : undefined,
       WOLFRAM_CLOUD_API_KEY: runtime.getSetting("WOLFRAM_CLOUD_API_KEY"),
       WOLFRAM_API_ENDPOINT: runtime.getSetting("WOLFRAM_API_ENDPOINT"),
       WOLFRAM_LLM_API_ENDPOINT: runtime.getSetting(
@@ -94,6 +337,124 @@ export async function validateWolframConfig(
       WOLFRAM_MAX_RESULTS: runtime.getSetting("WOLFRAM_MAX_RESULTS")
         ? parseInt(runtime.getSetting("WOLFRAM_MAX_RESULTS"), 10)
         : undefined,
+      WOLFRAM_TRANSPORT: runtime.getSetting("WOLFRAM_TRANSPORT"),
+      WOLFRAM_FIXTURE_PATH: runtime.getSetting("WOLFRAM_FIXTURE_PATH"),
+      WOLFRAM_CACHE_BACKEND: runtime.getSetting("WOLFRAM_CACHE_BACKEND"),
+      WOLFRAM_CACHE_PATH: runtime.getSetting("WOLFRAM_CACHE_PATH"),
+      WOLFRAM_CACHE_MAX_ENTRIES: runtime.getSetting("WOLFRAM_CACHE_MAX_ENTRIES")
+        ? parseInt(runtime.getSetting("WOLFRAM_CACHE_MAX_ENTRIES"), 10)
+        : undefined,
+      WOLFRAM_CACHE_MAX_BYTES: runtime.getSetting("WOLFRAM_CACHE_MAX_BYTES")
+        ? parseInt(runtime.getSetting("WOLFRAM_CACHE_MAX_BYTES"), 10)
+        : undefined,
+      WOLFRAM_CACHE_TTL: runtime.getSetting("WOLFRAM_CACHE_TTL")
+        ? parseInt(runtime.getSetting("WOLFRAM_CACHE_TTL"), 10)
+        : undefined,
+      WOLFRAM_CACHE_TTL_RULES: parseJsonSetting(
+        runtime.getSetting("WOLFRAM_CACHE_TTL_RULES"),
+      ),
+      WOLFRAM_CACHE_KEY_NORMALIZATION: runtime.getSetting(
+        "WOLFRAM_CACHE_KEY_NORMALIZATION",
+      ),
+      WOLFRAM_RATE_LIMIT_PER_SECOND: runtime.getSetting(
+        "WOLFRAM_RATE_LIMIT_PER_SECOND",
+      )
+        ? parseFloat(runtime.getSetting("WOLFRAM_RATE_LIMIT_PER_SECOND"))
+        : undefined,
+      WOLFRAM_RATE_LIMIT_BURST: runtime.getSetting("WOLFRAM_RATE_LIMIT_BURST")
+        ? parseInt(runtime.getSetting("WOLFRAM_RATE_LIMIT_BURST"), 10)
+        : undefined,
+      WOLFRAM_MONTHLY_QUOTA: runtime.getSetting("WOLFRAM_MONTHLY_QUOTA")
+        ? parseInt(runtime.getSetting("WOLFRAM_MONTHLY_QUOTA"), 10)
+        : undefined,
+      WOLFRAM_QUOTA_SOFT_LIMIT: runtime.getSetting("WOLFRAM_QUOTA_SOFT_LIMIT")
+        ? parseFloat(runtime.getSetting("WOLFRAM_QUOTA_SOFT_LIMIT"))
+        : undefined,
+      WOLFRAM_QUOTA_HARD_LIMIT: runtime.getSetting("WOLFRAM_QUOTA_HARD_LIMIT")
+        ? parseFloat(runtime.getSetting("WOLFRAM_QUOTA_HARD_LIMIT"))
+        : undefined,
+      WOLFRAM_CIRCUIT_FAILURE_THRESHOLD: runtime.getSetting(
+        "WOLFRAM_CIRCUIT_FAILURE_THRESHOLD",
+      )
+        ? parseInt(runtime.getSetting("WOLFRAM_CIRCUIT_FAILURE_THRESHOLD"), 10)
+        : undefined,
+      WOLFRAM_CIRCUIT_RESET_TIMEOUT: runtime.getSetting(
+        "WOLFRAM_CIRCUIT_RESET_TIMEOUT",
+      )
+        ? parseInt(runtime.getSetting("WOLFRAM_CIRCUIT_RESET_TIMEOUT"), 10)
+        : undefined,
+      WOLFRAM_RETRY_MAX_ATTEMPTS: runtime.getSetting(
+        "WOLFRAM_RETRY_MAX_ATTEMPTS",
+      )
+        ? parseInt(runtime.getSetting("WOLFRAM_RETRY_MAX_ATTEMPTS"), 10)
+        : undefined,
+      WOLFRAM_RETRY_BASE_DELAY: runtime.getSetting("WOLFRAM_RETRY_BASE_DELAY")
+        ? parseInt(runtime.getSetting("WOLFRAM_RETRY_BASE_DELAY"), 10)
+        : undefined,
+      WOLFRAM_RETRY_MAX_DELAY: runtime.getSetting("WOLFRAM_RETRY_MAX_DELAY")
+        ? parseInt(runtime.getSetting("WOLFRAM_RETRY_MAX_DELAY"), 10)
+        : undefined,
+      WOLFRAM_RETRY_STATUSES: (
+        parseListSetting(runtime.getSetting("WOLFRAM_RETRY_STATUSES")) as
+          | any[]
+          | undefined
+      )?.map(Number),
+      WOLFRAM_RETRY_ERROR_CODES: parseListSetting(
+        runtime.getSetting("WOLFRAM_RETRY_ERROR_CODES"),
+      ),
+      WOLFRAM_ASYNC_PODS: runtime.getSetting("WOLFRAM_ASYNC_PODS")
+        ? String(runtime.getSetting("WOLFRAM_ASYNC_PODS")) === "true"
+        : undefined,
+      WOLFRAM_ASYNC_WAIT: runtime.getSetting("WOLFRAM_ASYNC_WAIT")
+        ? parseInt(runtime.getSetting("WOLFRAM_ASYNC_WAIT"), 10)
+        : undefined,
+      WOLFRAM_ASSUMPTION_SCOPE: runtime.getSetting("WOLFRAM_ASSUMPTION_SCOPE"),
+      WOLFRAM_CONVERSATION_SCOPE: runtime.getSetting(
+        "WOLFRAM_CONVERSATION_SCOPE",
+      ),
+      WOLFRAM_CONVERSATION_TTL: runtime.getSetting("WOLFRAM_CONVERSATION_TTL")
+        ? parseInt(runtime.getSetting("WOLFRAM_CONVERSATION_TTL"), 10)
+        : undefined,
+      WOLFRAM_CONVERSATION_MAX_SESSIONS: runtime.getSetting(
+        "WOLFRAM_CONVERSATION_MAX_SESSIONS",
+      )
+        ? parseInt(runtime.getSetting("WOLFRAM_CONVERSATION_MAX_SESSIONS"), 10)
+        : undefined,
+      WOLFRAM_AUDIT_LOG_PATH: runtime.getSetting("WOLFRAM_AUDIT_LOG_PATH"),
+      WOLFRAM_AUDIT_LOG_MAX_BYTES: runtime.getSetting(
+        "WOLFRAM_AUDIT_LOG_MAX_BYTES",
+      )
+        ? parseInt(runtime.getSetting("WOLFRAM_AUDIT_LOG_MAX_BYTES"), 10)
+        : undefined,
+      WOLFRAM_AUDIT_LOG_MAX_FILES: runtime.getSetting(
+        "WOLFRAM_AUDIT_LOG_MAX_FILES",
+      )
+        ? parseInt(runtime.getSetting("WOLFRAM_AUDIT_LOG_MAX_FILES"), 10)
+        : undefined,
+      WOLFRAM_METRICS_ROUTE: runtime.getSetting("WOLFRAM_METRICS_ROUTE")
+        ? String(runtime.getSetting("WOLFRAM_METRICS_ROUTE")) === "true"
+        : undefined,
+      WOLFRAM_METRICS_ROUTE_PUBLIC: runtime.getSetting(
+        "WOLFRAM_METRICS_ROUTE_PUBLIC",
+      )
+        ? String(runtime.getSetting("WOLFRAM_METRICS_ROUTE_PUBLIC")) === "true"
+        : undefined,
+      WOLFRAM_METRICS_BUCKETS: (
+        parseListSetting(runtime.getSetting("WOLFRAM_METRICS_BUCKETS")) as
+          | any[]
+          | undefined
+      )?.map(Number),
+      WOLFRAM_BATCH_CONCURRENCY: runtime.getSetting(
+        "WOLFRAM_BATCH_CONCURRENCY",
+      )
+        ? parseInt(runtime.getSetting("WOLFRAM_BATCH_CONCURRENCY"), 10)
+        : undefined,
+      WOLFRAM_COMPUTE_STRATEGY: parseListSetting(
+        runtime.getSetting("WOLFRAM_COMPUTE_STRATEGY"),
+      ),
+      WOLFRAM_QUICK_ANSWER_STRATEGY: parseListSetting(
+        runtime.getSetting("WOLFRAM_QUICK_ANSWER_STRATEGY"),
+      ),
     };
 
     // Filter out undefined values
@@ -101,7 +462,7 @@ export async function validateWolframConfig(
       Object.entries(config).filter(([_, v]) => v !== undefined && v !== null),
     );
 
-    return wolframEnvSchema.parse(cleanConfig);
+    return wolframConfigSchema.parse(cleanConfig);
   } catch (error) {
     if (error instanceof z.ZodError) {
       const errorMessages = error.errors
@@ -115,12 +476,58 @@ export async function validateWolframConfig(
   }
 }
 
+/**
+ * Builds a validated config from WolframServiceOptions, for a WolframClient
+ * running outside the ElizaOS runtime. Anything the options leave out gets
+ * the same default as an unset setting.
+ */
+export function wolframConfigFromOptions(
+  options: WolframServiceOptions,
+): WolframConfig {
+  const config = {
+    WOLFRAM_APP_ID: options.appId,
+    WOLFRAM_APP_IDS: options.appIds?.map((appId) => ({ appId })),
+    WOLFRAM_CLOUD_API_KEY: options.cloudApiKey,
+    WOLFRAM_API_ENDPOINT: options.endpoint,
+    WOLFRAM_LLM_API_ENDPOINT: options.llmEndpoint,
+    WOLFRAM_CONVERSATION_ENDPOINT: options.conversationEndpoint,
+    WOLFRAM_TIMEOUT: options.timeout,
+    WOLFRAM_UNITS: options.units,
+    WOLFRAM_LOCATION: options.location,
+    WOLFRAM_MAX_RESULTS: options.maxResults,
+    WOLFRAM_BATCH_CONCURRENCY: options.batchConcurrency,
+    WOLFRAM_METRICS_BUCKETS: options.metricsBuckets,
+    WOLFRAM_CACHE_TTL: options.cacheTTL,
+    // A rule without criteria matches every result, built-in rules included
+    WOLFRAM_CACHE_TTL_RULES:
+      options.cache === false
+        ? [{ name: "cache-disabled", ttl: "never" as const }]
+        : undefined,
+    WOLFRAM_CACHE_MAX_ENTRIES: options.cacheMaxEntries,
+    WOLFRAM_CACHE_MAX_BYTES: options.cacheMaxBytes,
+  };
+
+  const result = wolframConfigSchema.safeParse(
+    Object.fromEntries(
+      Object.entries(config).filter(([_, v]) => v !== undefined && v !== null),
+    ),
+  );
+  if (!result.success) {
+    const errorMessages = result.error.errors
+      .map((err) => `${err.path.join(".")}: ${err.message}`)
+      .join("\n");
+    throw new Error(`Wolfram client options are invalid:\n${errorMessages}`);
+  }
+  return result.data;
+}
+
 /**
  * Checks if Wolfram configuration is available
  */
 export function isWolframConfigured(runtime: IAgentRuntime): boolean {
   const appId =
     runtime.getSetting("WOLFRAM_APP_ID") ||
-    runtime.getSetting("WOLFRAM_ALPHA_APP_ID");
+    runtime.getSetting("WOLFRAM_ALPHA_APP_ID") ||
+    runtime.getSetting("WOLFRAM_APP_IDS");
   return !!appId;
 }
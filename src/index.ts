@@ -12,18 +12,80 @@ import { wolframGetFactsAction } from "./actions/getFacts";
 import { wolframAnalyzeDataAction } from "./actions/analyzeData";
 import { wolframConversationalAction } from "./actions/conversational";
 import { wolframQuickAnswerAction } from "./actions/quickAnswer";
+import { wolframPodStateAction } from "./actions/podState";
+import { wolframDisambiguateAction } from "./actions/disambiguate";
+import { wolframAssumptionPreferencesAction } from "./actions/assumptionPreferences";
+import { wolframResetConversationAction } from "./actions/resetConversation";
 
 // Import providers
 import { wolframComputationProvider } from "./providers/computationProvider";
 import { wolframKnowledgeProvider } from "./providers/knowledgeProvider";
 
+// Import routes
+import { createMetricsRoute } from "./routes/metrics";
+
 // Import environment validation
-import { isWolframConfigured } from "./environment";
+import { isWolframConfigured, validateWolframConfig } from "./environment";
 
 // Export all components for external use
 export * from "./types";
 export * from "./environment";
 export { WolframService, WOLFRAM_SERVICE_NAME } from "./service";
+export { WolframClient, MemoryStateStore } from "./client";
+export {
+  HttpTransport,
+  RecordingTransport,
+  ReplayTransport,
+  WolframTransportError,
+  createTransport,
+  fixtureKey,
+} from "./transport";
+export {
+  MemoryCacheStore,
+  FileCacheStore,
+  RuntimeCacheStore,
+  createCacheStore,
+} from "./cache";
+export { WolframTtlPolicy, DEFAULT_TTL_RULES } from "./ttlPolicy";
+export { normalizeInput, stableStringify, buildCacheKey } from "./normalize";
+export { WolframQuotaTracker, createQuotaTracker } from "./quota";
+export { WolframAppIdPool, createAppIdPool } from "./appIds";
+export { WolframCircuitBreaker } from "./circuitBreaker";
+export { WolframRetryPolicy, createRetryPolicy } from "./retryPolicy";
+export {
+  extractSuggestions,
+  formatSuggestions,
+  hasSuggestions,
+} from "./suggestions";
+export {
+  listPodStates,
+  findPodState,
+  withPodState,
+  STEP_BY_STEP_STATE,
+} from "./podStates";
+export { listAssumptions, findAssumption } from "./assumptions";
+export { WolframAssumptionPreferences } from "./preferences";
+export {
+  WolframMetrics,
+  createMetrics,
+  endpointName,
+  renderPrometheusMetrics,
+  DEFAULT_LATENCY_BUCKETS_MS,
+  PROMETHEUS_CONTENT_TYPE,
+} from "./metrics";
+export { createMetricsRoute, WOLFRAM_METRICS_PATH } from "./routes/metrics";
+export {
+  WolframAuditLog,
+  AuditTransport,
+  createAuditLog,
+  readAuditLog,
+  replayAuditLog,
+  AUDIT_REDACTED,
+} from "./audit";
+export {
+  WolframConversationSessions,
+  createConversationSessions,
+} from "./conversations";
 
 export const wolframPlugin: Plugin = {
   name: "wolfram",
@@ -39,6 +101,10 @@ export const wolframPlugin: Plugin = {
     wolframAnalyzeDataAction,
     wolframConversationalAction,
     wolframQuickAnswerAction,
+    wolframPodStateAction,
+    wolframDisambiguateAction,
+    wolframAssumptionPreferencesAction,
+    wolframResetConversationAction,
   ],
 
   providers: [wolframComputationProvider, wolframKnowledgeProvider],
@@ -68,6 +134,15 @@ export const wolframPlugin: Plugin = {
     }
 
     try {
+      // The metrics route is opt-in, so it is only added once enabled
+      const metricsRoute = createMetricsRoute(
+        await validateWolframConfig(runtime),
+      );
+      if (metricsRoute) {
+        runtime.routes.push(metricsRoute);
+        logger.log(`📈 Serving Wolfram metrics at ${metricsRoute.path}`);
+      }
+
       // Initialize the service
       const service = runtime.getService(
         WOLFRAM_SERVICE_NAME,
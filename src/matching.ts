@@ -0,0 +1,56 @@
+// Filler words in follow-up requests like "I meant the chemical element"
+const FILLER_WORDS = new Set([
+  "a",
+  "an",
+  "as",
+  "give",
+  "i",
+  "it",
+  "me",
+  "mean",
+  "meant",
+  "of",
+  "please",
+  "show",
+  "the",
+  "use",
+]);
+
+function contentWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word && !FILLER_WORDS.has(word))
+      .map((word) => (word.length > 3 ? word.replace(/([^s])s$/, "$1") : word)),
+  );
+}
+
+/**
+ * Picks the item a free-text request refers to: an exact label first, then
+ * the label sharing the most words with the request (first one on ties)
+ */
+export function findBestMatch<T>(
+  items: T[],
+  request: string,
+  label: (item: T) => string,
+): T | undefined {
+  const wanted = request.trim().toLowerCase();
+  const exact = items.find((item) => label(item).toLowerCase() === wanted);
+  if (exact) return exact;
+
+  const requestWords = contentWords(request);
+  let best: T | undefined;
+  let bestScore = 0;
+  for (const item of items) {
+    let score = 0;
+    for (const word of contentWords(label(item))) {
+      if (requestWords.has(word)) score += 1;
+    }
+    if (score > bestScore) {
+      best = item;
+      bestScore = score;
+    }
+  }
+  return best;
+}
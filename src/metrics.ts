@@ -0,0 +1,299 @@
+import { WolframConfig } from "./environment";
+import {
+  WolframAPIEndpoint,
+  WolframEndpointMetrics,
+  WolframErrorCode,
+  WolframServiceStats,
+} from "./types";
+
+export const DEFAULT_LATENCY_BUCKETS_MS = [
+  50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4";
+
+const CIRCUIT_STATES = ["closed", "half-open", "open"] as const;
+
+/**
+ * Short name for an endpoint path or URL (`/query` -> "query", the LLM API
+ * URL -> "llm"); unknown endpoints keep their path
+ */
+export function endpointName(endpoint: string): string {
+  const known = Object.entries(WolframAPIEndpoint).find(
+    ([, value]) => value === endpoint,
+  );
+  return known ? known[0].toLowerCase() : endpoint;
+}
+
+/**
+ * Request counts, error counts by code and a latency histogram per
+ * endpoint. Every attempt is recorded, retries included, as are requests
+ * refused before they were sent (open circuit, spent quota).
+ */
+export class WolframMetrics {
+  readonly buckets: number[];
+  private endpoints: Map<string, WolframEndpointMetrics> = new Map();
+
+  constructor(buckets: number[] = DEFAULT_LATENCY_BUCKETS_MS) {
+    this.buckets = [...new Set(buckets)].sort((a, b) => a - b);
+  }
+
+  recordRequest(
+    endpoint: string,
+    durationMs: number,
+    error?: { code: WolframErrorCode },
+  ): void {
+    const metrics = this.forEndpoint(endpoint);
+    metrics.requests += 1;
+    if (error) this.countError(metrics, error.code);
+
+    const { latency } = metrics;
+    latency.count += 1;
+    latency.sum += durationMs;
+    this.buckets.forEach((bound, index) => {
+      if (durationMs <= bound) latency.counts[index] += 1;
+    });
+  }
+
+  /**
+   * A request that failed before it was sent; it has no latency
+   */
+  recordRefusal(endpoint: string, error: { code: WolframErrorCode }): void {
+    this.countError(this.forEndpoint(endpoint), error.code);
+  }
+
+  getStats(): Record<string, WolframEndpointMetrics> {
+    const stats: Record<string, WolframEndpointMetrics> = {};
+    for (const [name, metrics] of this.endpoints.entries()) {
+      stats[name] = {
+        requests: metrics.requests,
+        errors: { ...metrics.errors },
+        latency: {
+          ...metrics.latency,
+          buckets: [...metrics.latency.buckets],
+          counts: [...metrics.latency.counts],
+        },
+      };
+    }
+    return stats;
+  }
+
+  errorTotals(): Partial<Record<WolframErrorCode, number>> {
+    const totals: Partial<Record<WolframErrorCode, number>> = {};
+    for (const metrics of this.endpoints.values()) {
+      for (const [code, count] of Object.entries(metrics.errors)) {
+        const key = code as WolframErrorCode;
+        totals[key] = (totals[key] || 0) + (count || 0);
+      }
+    }
+    return totals;
+  }
+
+  private forEndpoint(endpoint: string): WolframEndpointMetrics {
+    const name = endpointName(endpoint);
+    let metrics = this.endpoints.get(name);
+    if (!metrics) {
+      metrics = {
+        requests: 0,
+        errors: {},
+        latency: {
+          buckets: this.buckets,
+          counts: this.buckets.map(() => 0),
+          count: 0,
+          sum: 0,
+        },
+      };
+      this.endpoints.set(name, metrics);
+    }
+    return metrics;
+  }
+
+  private countError(
+    metrics: WolframEndpointMetrics,
+    code: WolframErrorCode,
+  ): void {
+    metrics.errors[code] = (metrics.errors[code] || 0) + 1;
+  }
+}
+
+/**
+ * Builds the metrics recorder from WOLFRAM_METRICS_BUCKETS
+ */
+export function createMetrics(config: WolframConfig): WolframMetrics {
+  return new WolframMetrics(config.WOLFRAM_METRICS_BUCKETS);
+}
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+function sample(
+  name: string,
+  value: number,
+  labels: Record<string, string> = {},
+): string {
+  const pairs = Object.entries(labels).map(
+    ([key, label]) => `${key}="${escapeLabel(label)}"`,
+  );
+  const labelText = pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+  return `${name}${labelText} ${formatValue(value)}`;
+}
+
+/**
+ * Renders service statistics in the Prometheus text exposition format.
+ * Latencies are exported in seconds, as Prometheus expects.
+ */
+export function renderPrometheusMetrics(
+  stats: WolframServiceStats,
+  prefix: string = "wolfram",
+): string {
+  const lines: string[] = [];
+  const family = (
+    name: string,
+    type: "counter" | "gauge" | "histogram",
+    help: string,
+    samples: string[],
+  ) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`);
+    lines.push(`# TYPE ${prefix}_${name} ${type}`);
+    lines.push(...samples);
+  };
+  const metric = (
+    name: string,
+    value: number,
+    labels?: Record<string, string>,
+  ) => sample(`${prefix}_${name}`, value, labels);
+
+  const endpoints = Object.entries(stats.endpoints);
+
+  family(
+    "requests_total",
+    "counter",
+    "HTTP requests sent to Wolfram, retries included.",
+    endpoints.map(([endpoint, metrics]) =>
+      metric("requests_total", metrics.requests, { endpoint }),
+    ),
+  );
+  family(
+    "request_errors_total",
+    "counter",
+    "Failed or refused Wolfram requests by error code.",
+    endpoints.flatMap(([endpoint, metrics]) =>
+      Object.entries(metrics.errors).map(([code, count]) =>
+        metric("request_errors_total", count || 0, { endpoint, code }),
+      ),
+    ),
+  );
+  family(
+    "request_duration_seconds",
+    "histogram",
+    "Latency of Wolfram HTTP requests.",
+    endpoints.flatMap(([endpoint, { latency }]) => [
+      ...latency.buckets.map((bound, index) =>
+        metric("request_duration_seconds_bucket", latency.counts[index], {
+          endpoint,
+          le: String(bound / 1000),
+        }),
+      ),
+      metric("request_duration_seconds_bucket", latency.count, {
+        endpoint,
+        le: "+Inf",
+      }),
+      metric("request_duration_seconds_sum", latency.sum / 1000, { endpoint }),
+      metric("request_duration_seconds_count", latency.count, { endpoint }),
+    ]),
+  );
+
+  family(
+    "retries_total",
+    "counter",
+    "Retried Wolfram requests by HTTP status or network error code.",
+    Object.entries(stats.retries.byReason).map(([reason, count]) =>
+      metric("retries_total", count, { reason }),
+    ),
+  );
+  family(
+    "retries_exhausted_total",
+    "counter",
+    "Wolfram requests that failed after using up their attempts.",
+    [metric("retries_exhausted_total", stats.retries.exhausted)],
+  );
+
+  family("cache_hits_total", "counter", "Cache lookups that found a result.", [
+    metric("cache_hits_total", stats.cacheHits),
+  ]);
+  family("cache_misses_total", "counter", "Cache lookups that found nothing.", [
+    metric("cache_misses_total", stats.cacheMisses),
+  ]);
+  family("cache_hit_ratio", "gauge", "Share of cache lookups that hit.", [
+    metric("cache_hit_ratio", stats.cacheHitRatio),
+  ]);
+  family("cache_entries", "gauge", "Results in the cache.", [
+    metric("cache_entries", stats.cacheSize),
+  ]);
+  family("cache_bytes", "gauge", "Approximate size of the cache in bytes.", [
+    metric("cache_bytes", stats.cacheBytes),
+  ]);
+  family(
+    "cache_evictions_total",
+    "counter",
+    "Results dropped to stay within the cache limits.",
+    [metric("cache_evictions_total", stats.cacheEvictions)],
+  );
+
+  family(
+    "coalesced_requests_total",
+    "counter",
+    "Calls that joined an identical request already in flight.",
+    [metric("coalesced_requests_total", stats.coalescing.coalesced)],
+  );
+  family("inflight_requests", "gauge", "Distinct requests in flight.", [
+    metric("inflight_requests", stats.coalescing.inFlight),
+  ]);
+  family("active_conversations", "gauge", "Open Wolfram conversations.", [
+    metric("active_conversations", stats.activeConversations),
+  ]);
+
+  family(
+    "quota_used",
+    "gauge",
+    "Calls made this month per App ID (hashed).",
+    stats.quota.map((usage) =>
+      metric("quota_used", usage.used, { app_id: usage.appIdHash }),
+    ),
+  );
+  family(
+    "quota_limit",
+    "gauge",
+    "Monthly call limit per App ID (hashed); 0 means unlimited.",
+    stats.quota.map((usage) =>
+      metric("quota_limit", usage.limit, { app_id: usage.appIdHash }),
+    ),
+  );
+
+  family(
+    "circuit_state",
+    "gauge",
+    "Circuit breaker state per endpoint; the current state is 1.",
+    Object.entries(stats.circuitBreakers).flatMap(([endpoint, breaker]) =>
+      CIRCUIT_STATES.map((state) =>
+        metric("circuit_state", breaker.state === state ? 1 : 0, {
+          endpoint: endpointName(endpoint),
+          state,
+        }),
+      ),
+    ),
+  );
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,87 @@
+import { WolframKeyNormalization } from "./types";
+
+// Applied before NFKC, which would otherwise turn "x²" into "x2"
+const SUPERSCRIPTS: Record<string, string> = {
+  "⁰": "0",
+  "¹": "1",
+  "²": "2",
+  "³": "3",
+  "⁴": "4",
+  "⁵": "5",
+  "⁶": "6",
+  "⁷": "7",
+  "⁸": "8",
+  "⁹": "9",
+  "⁻": "-",
+};
+
+const SYMBOLS: Array<[RegExp, string]> = [
+  [/[×⋅·∙]/g, "*"],
+  [/[÷∕]/g, "/"],
+  [/[−–—]/g, "-"],
+  [/√/g, "sqrt"],
+  [/π/g, "pi"],
+  [/≤/g, "<="],
+  [/≥/g, ">="],
+  [/≠/g, "!="],
+];
+
+/**
+ * Canonical form of an input for cache keys: Unicode math symbols mapped to
+ * ASCII, whitespace collapsed and dropped around operators, and (in "full"
+ * mode) case folded. The original input is still what gets sent to Wolfram.
+ */
+export function normalizeInput(
+  input: string,
+  mode: WolframKeyNormalization = "full",
+): string {
+  if (mode === "off") return input;
+
+  let normalized = input.replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻]+/g, (run) => {
+    return `^${[...run].map((c) => SUPERSCRIPTS[c]).join("")}`;
+  });
+
+  for (const [pattern, replacement] of SYMBOLS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+
+  normalized = normalized
+    .normalize("NFKC")
+    .replace(/\s+/g, " ")
+    .replace(/\s*([+\-*/^=<>!(),])\s*/g, "$1")
+    .trim();
+
+  return mode === "full" ? normalized.toLowerCase() : normalized;
+}
+
+/**
+ * JSON serialization with sorted object keys and undefined values dropped,
+ * so option objects built in a different order produce the same string
+ */
+export function stableStringify(value: any): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(",")}]`;
+  }
+  const entries = Object.keys(value)
+    .filter((key) => value[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+  return `{${entries.join(",")}}`;
+}
+
+/**
+ * Builds the cache (and request coalescing) key for a service method
+ */
+export function buildCacheKey(
+  prefix: string,
+  input: string,
+  mode: WolframKeyNormalization = "full",
+  options?: Record<string, any>,
+): string {
+  const key = `${prefix}:${normalizeInput(input, mode)}`;
+  if (options === undefined) return key;
+  return `${key}:${mode === "off" ? JSON.stringify(options) : stableStringify(options)}`;
+}
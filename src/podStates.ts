@@ -0,0 +1,81 @@
+import {
+  WolframAlphaQueryResult,
+  WolframPodStateOption,
+  WolframQueryOptions,
+  WolframState,
+} from "./types";
+import { findBestMatch } from "./matching";
+
+export const STEP_BY_STEP_STATE = "Step-by-step solution";
+
+function collect(
+  states: WolframState[] | undefined,
+  podId: string,
+  podTitle: string,
+  group: string | undefined,
+  options: WolframPodStateOption[],
+): void {
+  if (!Array.isArray(states)) return;
+  for (const state of states) {
+    if (state.input) {
+      options.push({
+        podId,
+        podTitle,
+        name: state.name,
+        input: state.input,
+        group,
+      });
+    }
+    if (state.states) {
+      collect(
+        state.states,
+        podId,
+        podTitle,
+        state.value ?? state.name,
+        options,
+      );
+    }
+  }
+}
+
+/**
+ * Lists the states offered by every pod of a result, or by one pod, with
+ * the choices of nested state lists flattened in
+ */
+export function listPodStates(
+  result: WolframAlphaQueryResult,
+  podId?: string,
+): WolframPodStateOption[] {
+  const options: WolframPodStateOption[] = [];
+  for (const pod of result.pods || []) {
+    if (podId && pod.id !== podId) continue;
+    collect(pod.states, pod.id, pod.title, undefined, options);
+  }
+  return options;
+}
+
+/**
+ * Picks the state a request such as "show the exact form" refers to
+ */
+export function findPodState(
+  options: WolframPodStateOption[],
+  request: string,
+): WolframPodStateOption | undefined {
+  return findBestMatch(options, request, (option) => option.name);
+}
+
+/**
+ * Adds a pod state after those already in `options`. Wolfram applies every
+ * `podstate` it is sent in order, so "more digits" twice gives more still.
+ */
+export function withPodState(
+  options: Partial<WolframQueryOptions>,
+  podstate: string,
+): Partial<WolframQueryOptions> {
+  const applied =
+    options.podstate === undefined ? [] : [options.podstate].flat();
+  return {
+    ...options,
+    podstate: applied.length > 0 ? [...applied, podstate] : podstate,
+  };
+}
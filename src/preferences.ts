@@ -0,0 +1,172 @@
+import { logger } from "@elizaos/core";
+import {
+  WolframAlphaQueryResult,
+  WolframAssumptionOption,
+  WolframAssumptionPreference,
+  WolframStateStore,
+} from "./types";
+import { listAssumptions } from "./assumptions";
+
+const RUNTIME_PREFERENCES_PREFIX = "wolfram:assumptions:";
+
+function sameChoice(
+  preference: WolframAssumptionPreference,
+  word: string | undefined,
+  type: string,
+): boolean {
+  return (
+    !!word &&
+    preference.word.toLowerCase() === word.toLowerCase() &&
+    preference.type === type
+  );
+}
+
+function mentions(input: string, word: string): boolean {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|\\W)${escaped}($|\\W)`, "i").test(input);
+}
+
+/**
+ * Interpretations users picked through WOLFRAM_DISAMBIGUATE, kept per scope
+ * (a user or a room) in the ElizaOS runtime cache so they survive restarts
+ */
+export class WolframAssumptionPreferences {
+  private scopes: Map<string, WolframAssumptionPreference[]> = new Map();
+  private loading: Map<string, Promise<WolframAssumptionPreference[]>> =
+    new Map();
+  private pending: Set<Promise<unknown>> = new Set();
+
+  constructor(
+    private readonly runtime: WolframStateStore,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async list(scope: string): Promise<WolframAssumptionPreference[]> {
+    return [...(await this.load(scope))];
+  }
+
+  /**
+   * Stores a choice, replacing any earlier one for the same word and type
+   */
+  async remember(
+    scope: string,
+    option: WolframAssumptionOption,
+  ): Promise<WolframAssumptionPreference | undefined> {
+    if (!option.word) return undefined;
+
+    const preferences = (await this.load(scope)).filter(
+      (preference) => !sameChoice(preference, option.word, option.type),
+    );
+    const preference: WolframAssumptionPreference = {
+      word: option.word,
+      type: option.type,
+      name: option.name,
+      desc: option.desc,
+      input: option.input,
+      updatedAt: this.now(),
+    };
+    preferences.push(preference);
+    this.save(scope, preferences);
+    return preference;
+  }
+
+  /**
+   * Forgets every choice in the scope, or only those for one word. Returns
+   * how many were removed.
+   */
+  async reset(scope: string, word?: string): Promise<number> {
+    const preferences = await this.load(scope);
+    const kept = word
+      ? preferences.filter(
+          (preference) => preference.word.toLowerCase() !== word.toLowerCase(),
+        )
+      : [];
+    this.save(scope, kept);
+    return preferences.length - kept.length;
+  }
+
+  /**
+   * Assumption tokens of remembered choices whose word appears in the input
+   */
+  async tokensFor(scope: string, input: string): Promise<string[]> {
+    return (await this.load(scope))
+      .filter((preference) => mentions(input, preference.word))
+      .map((preference) => preference.input);
+  }
+
+  /**
+   * Tokens that make a result follow every remembered choice it involves,
+   * e.g. when a stored token did not carry over to a new input. Empty when
+   * the result already follows them.
+   */
+  async corrections(
+    scope: string,
+    result: WolframAlphaQueryResult,
+  ): Promise<string[]> {
+    const preferences = await this.load(scope);
+    if (preferences.length === 0) return [];
+
+    const options = listAssumptions(result);
+    const tokens: string[] = [];
+    let changed = false;
+    for (const preference of preferences) {
+      const preferred = options.find(
+        (option) =>
+          sameChoice(preference, option.word, option.type) &&
+          option.name === preference.name,
+      );
+      if (!preferred) continue;
+      tokens.push(preferred.input);
+      changed ||= !preferred.current;
+    }
+    return changed ? tokens : [];
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all([...this.pending]);
+  }
+
+  private async load(scope: string): Promise<WolframAssumptionPreference[]> {
+    const known = this.scopes.get(scope);
+    if (known) return known;
+
+    let loading = this.loading.get(scope);
+    if (!loading) {
+      loading = this.read(scope).finally(() => this.loading.delete(scope));
+      this.loading.set(scope, loading);
+    }
+    const preferences = await loading;
+    this.scopes.set(scope, this.scopes.get(scope) ?? preferences);
+    return this.scopes.get(scope)!;
+  }
+
+  private async read(scope: string): Promise<WolframAssumptionPreference[]> {
+    try {
+      const stored = await this.runtime.getCache<WolframAssumptionPreference[]>(
+        RUNTIME_PREFERENCES_PREFIX + scope,
+      );
+      return Array.isArray(stored) ? stored : [];
+    } catch (error) {
+      logger.warn(`⚠️ Could not load Wolfram assumption choices: ${error}`);
+      return [];
+    }
+  }
+
+  private save(
+    scope: string,
+    preferences: WolframAssumptionPreference[],
+  ): void {
+    this.scopes.set(scope, preferences);
+    const tracked = Promise.resolve()
+      .then(() =>
+        this.runtime.setCache(RUNTIME_PREFERENCES_PREFIX + scope, preferences),
+      )
+      .catch((error) => {
+        logger.error("Failed to persist Wolfram assumption choices:", error);
+      })
+      .finally(() => {
+        this.pending.delete(tracked);
+      });
+    this.pending.add(tracked);
+  }
+}
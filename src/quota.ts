@@ -0,0 +1,316 @@
+import { logger } from "@elizaos/core";
+import { createHash } from "crypto";
+import { WolframConfig } from "./environment";
+import {
+  WolframAbortedError,
+  WolframQuotaExceededError,
+  WolframQuotaLimits,
+  WolframQuotaUsage,
+  WolframStateStore,
+} from "./types";
+
+export const DEFAULT_REQUESTS_PER_SECOND = 5;
+// No budget unless one is configured: limits depend on the App ID's plan
+// (free non-commercial App IDs allow 2,000 calls per month)
+export const DEFAULT_MONTHLY_LIMIT = 0;
+export const DEFAULT_QUOTA_SOFT_LIMIT = 0.8;
+export const DEFAULT_QUOTA_HARD_LIMIT = 1;
+
+const RUNTIME_QUOTA_PREFIX = "wolfram:quota:";
+
+interface MonthlyCounter {
+  month: string;
+  used: number;
+  warned: boolean;
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export function hashAppId(appId: string): string {
+  return createHash("sha256").update(appId).digest("hex").slice(0, 12);
+}
+
+function monthOf(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 7);
+}
+
+function startOfNextMonth(timestamp: number): Date {
+  const date = new Date(timestamp);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Per App ID rate limiting (token bucket) and monthly call accounting.
+ * Monthly counters are persisted through the ElizaOS runtime cache so
+ * restarts do not reset them.
+ */
+export class WolframQuotaTracker {
+  readonly requestsPerSecond: number;
+  readonly burst: number;
+  readonly monthlyLimit: number;
+  readonly softLimit: number;
+  readonly hardLimit: number;
+  private appIdLimits: Map<string, number> = new Map(); // hash -> limit
+  private counters: Map<string, MonthlyCounter> = new Map();
+  private loading: Map<string, Promise<MonthlyCounter>> = new Map();
+  private buckets: Map<string, TokenBucket> = new Map();
+  private pending: Set<Promise<unknown>> = new Set();
+  private writes: Map<string, Promise<unknown>> = new Map(); // hash -> last write
+
+  constructor(
+    private readonly runtime: WolframStateStore,
+    limits: WolframQuotaLimits = {},
+    private readonly now: () => number = Date.now,
+  ) {
+    this.requestsPerSecond =
+      limits.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND;
+    this.burst = limits.burst ?? Math.max(1, Math.ceil(this.requestsPerSecond));
+    this.monthlyLimit = limits.monthlyLimit ?? DEFAULT_MONTHLY_LIMIT;
+    this.softLimit = limits.softLimit ?? DEFAULT_QUOTA_SOFT_LIMIT;
+    this.hardLimit = limits.hardLimit ?? DEFAULT_QUOTA_HARD_LIMIT;
+    for (const [appId, limit] of Object.entries(limits.appIdLimits ?? {})) {
+      this.appIdLimits.set(hashAppId(appId), limit);
+    }
+  }
+
+  /**
+   * Counts one API call against the App ID, waiting for a rate limit token
+   * if needed. Throws WolframQuotaExceededError at the hard threshold. If
+   * `signal` fires while waiting, the token is handed back and the call is
+   * not counted.
+   */
+  async acquire(appId: string, signal?: AbortSignal): Promise<void> {
+    const hash = hashAppId(appId);
+    const counter = await this.counter(hash);
+    const monthlyLimit = this.limitFor(hash);
+    throwIfAborted(signal);
+    this.checkLimit(hash, counter);
+
+    const waitMs = this.takeToken(hash);
+    if (waitMs > 0) {
+      try {
+        await sleep(waitMs, signal);
+        // Concurrent callers may have used up the budget meanwhile
+        this.checkLimit(hash, this.current(counter));
+      } catch (error) {
+        this.returnToken(hash);
+        throw error;
+      }
+    }
+
+    counter.used += 1;
+    if (
+      monthlyLimit > 0 &&
+      !counter.warned &&
+      counter.used >= Math.ceil(monthlyLimit * this.softLimit)
+    ) {
+      counter.warned = true;
+      logger.warn(
+        `⚠️ Wolfram App ID ${hash} has used ${counter.used} of ${monthlyLimit} monthly calls`,
+      );
+    }
+    this.persist(hash, counter);
+  }
+
+  /**
+   * Current usage for every App ID seen since startup
+   */
+  getUsage(): WolframQuotaUsage[] {
+    return [...this.counters.entries()].map(([hash, counter]) =>
+      this.describe(hash, this.current(counter)),
+    );
+  }
+
+  /**
+   * Current usage for one App ID, loading its persisted counter if needed
+   */
+  async usage(appId: string): Promise<WolframQuotaUsage> {
+    const hash = hashAppId(appId);
+    return this.describe(hash, await this.counter(hash));
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all([...this.pending]);
+  }
+
+  private limitFor(hash: string): number {
+    return this.appIdLimits.get(hash) ?? this.monthlyLimit;
+  }
+
+  /**
+   * Reserves a token and returns how long the caller must wait for it.
+   * Tokens may go negative so concurrent callers queue up in order.
+   */
+  private takeToken(hash: string): number {
+    if (this.requestsPerSecond <= 0) return 0;
+
+    const now = this.now();
+    const bucket = this.buckets.get(hash) || {
+      tokens: this.burst,
+      updatedAt: now,
+    };
+    const refill = ((now - bucket.updatedAt) / 1000) * this.requestsPerSecond;
+    bucket.tokens = Math.min(this.burst, bucket.tokens + refill) - 1;
+    bucket.updatedAt = now;
+    this.buckets.set(hash, bucket);
+
+    if (bucket.tokens >= 0) return 0;
+    return Math.ceil((-bucket.tokens / this.requestsPerSecond) * 1000);
+  }
+
+  private checkLimit(hash: string, counter: MonthlyCounter): void {
+    const monthlyLimit = this.limitFor(hash);
+    if (
+      monthlyLimit > 0 &&
+      counter.used >= Math.floor(monthlyLimit * this.hardLimit)
+    ) {
+      throw new WolframQuotaExceededError(this.describe(hash, counter));
+    }
+  }
+
+  /**
+   * Gives back a token reserved by a caller that no longer needs it
+   */
+  private returnToken(hash: string): void {
+    const bucket = this.buckets.get(hash);
+    if (bucket) bucket.tokens = Math.min(this.burst, bucket.tokens + 1);
+  }
+
+  private async counter(hash: string): Promise<MonthlyCounter> {
+    const known = this.counters.get(hash);
+    if (known) return this.current(known);
+
+    let loading = this.loading.get(hash);
+    if (!loading) {
+      loading = this.load(hash).finally(() => this.loading.delete(hash));
+      this.loading.set(hash, loading);
+    }
+    const counter = await loading;
+    this.counters.set(hash, counter);
+    return this.current(counter);
+  }
+
+  private async load(hash: string): Promise<MonthlyCounter> {
+    const month = monthOf(this.now());
+    try {
+      const stored = await this.runtime.getCache<{
+        month: string;
+        used: number;
+      }>(RUNTIME_QUOTA_PREFIX + hash);
+      if (stored?.month === month) {
+        return { month, used: stored.used, warned: false };
+      }
+    } catch (error) {
+      logger.warn(`⚠️ Could not load Wolfram quota counter: ${error}`);
+    }
+    return { month, used: 0, warned: false };
+  }
+
+  /**
+   * Resets the counter in place once a new month has started
+   */
+  private current(counter: MonthlyCounter): MonthlyCounter {
+    const month = monthOf(this.now());
+    if (counter.month !== month) {
+      counter.month = month;
+      counter.used = 0;
+      counter.warned = false;
+    }
+    return counter;
+  }
+
+  private describe(hash: string, counter: MonthlyCounter): WolframQuotaUsage {
+    const monthlyLimit = this.limitFor(hash);
+    return {
+      appIdHash: hash,
+      month: counter.month,
+      used: counter.used,
+      limit: monthlyLimit,
+      remaining:
+        monthlyLimit > 0
+          ? Math.max(
+              0,
+              Math.floor(monthlyLimit * this.hardLimit) - counter.used,
+            )
+          : null,
+      softLimitReached:
+        monthlyLimit > 0 &&
+        counter.used >= Math.ceil(monthlyLimit * this.softLimit),
+      resetsAt: startOfNextMonth(this.now()).toISOString(),
+    };
+  }
+
+  /**
+   * Writes for one App ID run one at a time, each saving the counter as it
+   * is when it starts, so a slow earlier write can never land last and
+   * save a lower count
+   */
+  private persist(hash: string, counter: MonthlyCounter): void {
+    const write: Promise<unknown> = (this.writes.get(hash) ?? Promise.resolve())
+      .then(() =>
+        this.runtime.setCache(RUNTIME_QUOTA_PREFIX + hash, {
+          month: counter.month,
+          used: counter.used,
+        }),
+      )
+      .catch((error) => {
+        logger.error("Failed to persist Wolfram quota counter:", error);
+      })
+      .finally(() => {
+        this.pending.delete(write);
+        if (this.writes.get(hash) === write) this.writes.delete(hash);
+      });
+    this.writes.set(hash, write);
+    this.pending.add(write);
+  }
+}
+
+function abortedWait(signal: AbortSignal): WolframAbortedError {
+  return new WolframAbortedError("Wolfram rate limit wait was aborted", {
+    cause: signal.reason,
+  });
+}
+
+function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) throw abortedWait(signal);
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  throwIfAborted(signal);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedWait(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Builds the quota tracker from the WOLFRAM_RATE_LIMIT_* and WOLFRAM_QUOTA_*
+ * settings, plus the per-ID limits in WOLFRAM_APP_IDS
+ */
+export function createQuotaTracker(
+  config: WolframConfig,
+  runtime: WolframStateStore,
+): WolframQuotaTracker {
+  return new WolframQuotaTracker(runtime, {
+    requestsPerSecond: config.WOLFRAM_RATE_LIMIT_PER_SECOND,
+    burst: config.WOLFRAM_RATE_LIMIT_BURST,
+    monthlyLimit: config.WOLFRAM_MONTHLY_QUOTA,
+    softLimit: config.WOLFRAM_QUOTA_SOFT_LIMIT,
+    hardLimit: config.WOLFRAM_QUOTA_HARD_LIMIT,
+    appIdLimits: Object.fromEntries(
+      (config.WOLFRAM_APP_IDS ?? [])
+        .filter((entry) => entry.monthlyLimit !== undefined)
+        .map((entry) => [entry.appId, entry.monthlyLimit!]),
+    ),
+  });
+}
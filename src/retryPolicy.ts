@@ -0,0 +1,95 @@
+import { WolframConfig } from "./environment";
+import { WolframRetryPolicyOptions } from "./types";
+
+export const DEFAULT_RETRY_MAX_ATTEMPTS = 3;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 250;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 10000;
+// 501 is left out on purpose: it is Wolfram's "did not understand your input"
+export const DEFAULT_RETRY_STATUSES = [429, 500, 502, 503, 504];
+// ECONNABORTED is what axios reports for its own timeout
+export const DEFAULT_RETRY_ERROR_CODES = [
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "ECONNABORTED",
+];
+
+/**
+ * Decides whether and when a failed request is retried: exponential backoff
+ * with full jitter, or the server's Retry-After when it sends one
+ */
+export class WolframRetryPolicy {
+  readonly maxAttempts: number;
+  readonly baseDelayMs: number;
+  readonly maxDelayMs: number;
+  readonly retryStatuses: number[];
+  readonly retryErrorCodes: string[];
+
+  constructor(
+    options: WolframRetryPolicyOptions = {},
+    private readonly random: () => number = Math.random,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_RETRY_MAX_ATTEMPTS;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+    this.retryStatuses = options.retryStatuses ?? DEFAULT_RETRY_STATUSES;
+    this.retryErrorCodes = options.retryErrorCodes ?? DEFAULT_RETRY_ERROR_CODES;
+  }
+
+  /**
+   * HTTP status or network error code that makes the error retriable, if any
+   */
+  retryReason(error: any): string | undefined {
+    const status = error?.response?.status;
+    if (status !== undefined) {
+      return this.retryStatuses.includes(status) ? String(status) : undefined;
+    }
+    const code = error?.code;
+    return code && this.retryErrorCodes.includes(code) ? code : undefined;
+  }
+
+  /**
+   * Milliseconds to wait before attempt `attempt + 1` (attempts count from
+   * 1), or null when the request should not be retried
+   */
+  nextDelay(error: any, attempt: number): number | null {
+    if (attempt >= this.maxAttempts || !this.retryReason(error)) return null;
+
+    const retryAfter = this.retryAfterMs(error);
+    if (retryAfter !== undefined) {
+      // Waiting longer than maxDelayMs would stall the agent; fail instead
+      return retryAfter <= this.maxDelayMs ? retryAfter : null;
+    }
+
+    const ceiling = Math.min(
+      this.maxDelayMs,
+      this.baseDelayMs * 2 ** (attempt - 1),
+    );
+    return Math.round(this.random() * ceiling);
+  }
+
+  private retryAfterMs(error: any): number | undefined {
+    const value = error?.response?.headers?.["retry-after"];
+    if (value === undefined || value === null || value === "") return undefined;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(String(value));
+    if (Number.isNaN(date)) return undefined;
+    return Math.max(0, date - this.now());
+  }
+}
+
+/**
+ * Builds the retry policy from the WOLFRAM_RETRY_* settings
+ */
+export function createRetryPolicy(config: WolframConfig): WolframRetryPolicy {
+  return new WolframRetryPolicy({
+    maxAttempts: config.WOLFRAM_RETRY_MAX_ATTEMPTS,
+    baseDelayMs: config.WOLFRAM_RETRY_BASE_DELAY,
+    maxDelayMs: config.WOLFRAM_RETRY_MAX_DELAY,
+    retryStatuses: config.WOLFRAM_RETRY_STATUSES,
+    retryErrorCodes: config.WOLFRAM_RETRY_ERROR_CODES,
+  });
+}
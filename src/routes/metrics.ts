@@ -0,0 +1,41 @@
+import { Route } from "@elizaos/core";
+import { WolframConfig } from "../environment";
+import { WolframService, WOLFRAM_SERVICE_NAME } from "../service";
+import { PROMETHEUS_CONTENT_TYPE } from "../metrics";
+
+export const WOLFRAM_METRICS_PATH = "/wolfram/metrics";
+
+const handleMetrics: NonNullable<Route["handler"]> = async (
+  _req,
+  res,
+  runtime,
+) => {
+  const service = runtime.getService(
+    WOLFRAM_SERVICE_NAME,
+  ) as unknown as WolframService;
+
+  if (!service?.client) {
+    res.status(503).send("Wolfram service is not running\n");
+    return;
+  }
+
+  res.setHeader("Content-Type", PROMETHEUS_CONTENT_TYPE);
+  res.status(200).send(service.getPrometheusMetrics());
+};
+
+/**
+ * Prometheus scrape endpoint for the Wolfram service, when
+ * WOLFRAM_METRICS_ROUTE turns it on. It reports traffic, errors and App ID
+ * usage, so it needs the server's auth unless WOLFRAM_METRICS_ROUTE_PUBLIC
+ * is set.
+ */
+export function createMetricsRoute(config: WolframConfig): Route | undefined {
+  if (!config.WOLFRAM_METRICS_ROUTE) return undefined;
+  return {
+    type: "GET",
+    path: WOLFRAM_METRICS_PATH,
+    name: "wolfram-metrics",
+    public: config.WOLFRAM_METRICS_ROUTE_PUBLIC,
+    handler: handleMetrics,
+  };
+}
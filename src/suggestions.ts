@@ -0,0 +1,101 @@
+import { WolframAlphaQueryResult, WolframSuggestions } from "./types";
+
+const MAX_SUGGESTIONS = 5;
+
+// The JSON API returns a single element as an object rather than an array
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function unique(values: (string | undefined)[]): string[] {
+  return [
+    ...new Set(values.filter((v): v is string => !!v && !!v.trim())),
+  ].slice(0, MAX_SUGGESTIONS);
+}
+
+export function emptySuggestions(): WolframSuggestions {
+  return { didYouMean: [], alternatives: [], relatedExamples: [] };
+}
+
+export function hasSuggestions(suggestions: WolframSuggestions): boolean {
+  return (
+    suggestions.didYouMean.length > 0 ||
+    !!suggestions.reinterpretedAs ||
+    suggestions.alternatives.length > 0 ||
+    suggestions.relatedExamples.length > 0
+  );
+}
+
+/**
+ * Collects didyoumeans, reinterpret warnings and related examples from a
+ * full query result
+ */
+export function extractSuggestions(
+  result: WolframAlphaQueryResult,
+): WolframSuggestions {
+  const suggestions = emptySuggestions();
+
+  suggestions.didYouMean = unique(
+    asArray(result.didyoumeans).map((d) => d.val ?? d.input ?? d.text),
+  );
+
+  const alternatives: (string | undefined)[] = [];
+  for (const warning of asArray(result.warnings)) {
+    const reinterpret = warning?.reinterpret;
+    if (!reinterpret) continue;
+    suggestions.reinterpretedAs ??= reinterpret.new;
+    for (const alternative of asArray(reinterpret.alternatives)) {
+      alternatives.push(
+        alternative.val ?? alternative.input ?? alternative.text,
+      );
+    }
+  }
+  suggestions.alternatives = unique(alternatives);
+
+  // Related examples arrive as objects ({input, desc, ...}) despite the type
+  suggestions.relatedExamples = unique(
+    asArray<any>(result.relatedexamples).map((example) =>
+      typeof example === "string" ? example : (example?.input ?? example?.desc),
+    ),
+  );
+
+  return suggestions;
+}
+
+/**
+ * Renders suggestions as a short chat reply to a query Wolfram did not
+ * understand
+ */
+export function formatSuggestions(
+  input: string,
+  suggestions: WolframSuggestions | undefined,
+): string {
+  const lines = [`Wolfram Alpha couldn't interpret "${input}".`];
+  if (!suggestions || !hasSuggestions(suggestions)) {
+    lines.push("Try rephrasing it or making it more specific.");
+    return lines.join(" ");
+  }
+
+  if (suggestions.didYouMean.length > 0) {
+    lines.push(
+      `Did you mean: ${suggestions.didYouMean.map((s) => `"${s}"`).join(", ")}?`,
+    );
+  }
+  if (suggestions.reinterpretedAs) {
+    lines.push(
+      `The closest interpretation is "${suggestions.reinterpretedAs}".`,
+    );
+  }
+  if (suggestions.alternatives.length > 0) {
+    lines.push(
+      `Other interpretations: ${suggestions.alternatives.map((s) => `"${s}"`).join(", ")}.`,
+    );
+  }
+  if (suggestions.relatedExamples.length > 0) {
+    lines.push(
+      `You could try: ${suggestions.relatedExamples.map((s) => `"${s}"`).join(", ")}.`,
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,9 @@
+// Test helpers, published as "@elizaos/plugin-wolfram/testing" so the
+// plugin entry point does not pull in an HTTP server
+export { WolframStandInServer, loadWolframScenario } from "./standInServer";
+export type {
+  WolframStandInEndpoint,
+  WolframStandInRequest,
+  WolframStandInRule,
+  WolframStandInScenario,
+} from "../types";
@@ -0,0 +1,237 @@
+import { logger } from "@elizaos/core";
+import { promises as fs } from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import {
+  WolframStandInEndpoint,
+  WolframStandInRequest,
+  WolframStandInRule,
+  WolframStandInScenario,
+} from "../types";
+
+const NOT_UNDERSTOOD = "Wolfram|Alpha did not understand your input";
+
+// Last path segment -> endpoint, so any base path prefix works
+const ENDPOINTS_BY_SEGMENT: Record<string, WolframStandInEndpoint> = {
+  query: "query",
+  simple: "simple",
+  short: "short",
+  spoken: "spoken",
+  result: "result",
+  "llm-api": "llm",
+  "conversation.jsp": "conversation",
+};
+
+/**
+ * Loads a stand-in scenario from a JSON file
+ */
+export async function loadWolframScenario(
+  scenarioPath: string,
+): Promise<WolframStandInScenario> {
+  const contents = await fs.readFile(scenarioPath, "utf8");
+  const scenario = JSON.parse(contents) as WolframStandInScenario;
+  if (!Array.isArray(scenario.rules)) {
+    throw new Error(`Invalid Wolfram scenario file: ${scenarioPath}`);
+  }
+  return scenario;
+}
+
+/**
+ * In-process HTTP server that mimics the Wolfram Alpha v2, LLM and
+ * conversation endpoints from a scenario of canned responses. Point
+ * WOLFRAM_API_ENDPOINT at `apiEndpoint`, WOLFRAM_LLM_API_ENDPOINT at
+ * `llmEndpoint` and WOLFRAM_CONVERSATION_ENDPOINT at `conversationEndpoint`
+ * to run the plugin without a real App ID.
+ */
+export class WolframStandInServer {
+  readonly requests: WolframStandInRequest[] = [];
+  private server: http.Server | null = null;
+  private served: Map<WolframStandInRule, number> = new Map();
+  private baseUrl = "";
+
+  constructor(private scenario: WolframStandInScenario) {}
+
+  static async fromFile(scenarioPath: string): Promise<WolframStandInServer> {
+    return new WolframStandInServer(await loadWolframScenario(scenarioPath));
+  }
+
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  get apiEndpoint(): string {
+    return `${this.baseUrl}/v2`;
+  }
+
+  get llmEndpoint(): string {
+    return `${this.baseUrl}/api/v1/llm-api`;
+  }
+
+  get conversationEndpoint(): string {
+    return `${this.baseUrl}/api/v1/conversation.jsp`;
+  }
+
+  async start(port: number = 0): Promise<void> {
+    if (this.server) return;
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error("Wolfram stand-in failed to handle request:", error);
+        res.statusCode = 500;
+        res.end("Internal stand-in error");
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", () => resolve());
+    });
+
+    const address = server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${address.port}`;
+    this.server = server;
+    logger.log(`🧪 Wolfram stand-in listening on ${this.baseUrl}`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve())),
+    );
+  }
+
+  /**
+   * Replaces the scenario and forgets which limited rules were used up
+   */
+  setScenario(scenario: WolframStandInScenario): void {
+    this.scenario = scenario;
+    this.served.clear();
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const url = new URL(req.url || "/", this.baseUrl);
+    const segment = url.pathname.split("/").filter(Boolean).pop() || "";
+    const endpoint = ENDPOINTS_BY_SEGMENT[segment];
+    const params = Object.fromEntries(url.searchParams.entries());
+
+    const log: WolframStandInRequest = {
+      endpoint: endpoint || "unknown",
+      path: url.pathname,
+      params,
+      status: 404,
+    };
+    this.requests.push(log);
+
+    if (!endpoint) {
+      res.statusCode = 404;
+      res.end("Not found");
+      return;
+    }
+
+    if (this.scenario.appId && params.appid !== this.scenario.appId) {
+      log.status = endpoint === "query" ? 200 : 403;
+      if (endpoint === "query") {
+        this.send(res, 200, {
+          queryresult: {
+            success: false,
+            error: { code: "1", msg: "Invalid appid" },
+            numpods: 0,
+          },
+        });
+      } else {
+        this.send(res, 403, "Error 1: Invalid appid");
+      }
+      return;
+    }
+
+    // The conversation API names its input parameter `i`
+    const input = params.input ?? params.i;
+    const rule = this.match(endpoint, input);
+
+    if (rule?.delayMs) {
+      await new Promise((r) => setTimeout(r, rule.delayMs));
+    }
+
+    if (!rule) {
+      const fallback = defaultResponse(endpoint, input);
+      log.status = fallback.status;
+      this.send(res, fallback.status, fallback.body);
+      return;
+    }
+
+    log.status = rule.status ?? 200;
+    this.send(res, log.status, rule.body ?? "", rule.encoding, rule.headers);
+  }
+
+  private match(
+    endpoint: WolframStandInEndpoint,
+    input: string | undefined,
+  ): WolframStandInRule | undefined {
+    for (const rule of this.scenario.rules) {
+      if (rule.endpoint !== endpoint) continue;
+      if (rule.input !== undefined && rule.input !== input) continue;
+
+      const used = this.served.get(rule) || 0;
+      if (rule.times !== undefined && used >= rule.times) continue;
+
+      this.served.set(rule, used + 1);
+      return rule;
+    }
+    return undefined;
+  }
+
+  private send(
+    res: http.ServerResponse,
+    status: number,
+    body: any,
+    encoding?: WolframStandInRule["encoding"],
+    headers: Record<string, string> = {},
+  ): void {
+    const kind = encoding || (typeof body === "string" ? "text" : "json");
+
+    let payload: Buffer;
+    let contentType: string;
+    if (kind === "base64") {
+      payload = Buffer.from(String(body), "base64");
+      contentType = "image/gif";
+    } else if (kind === "json") {
+      payload = Buffer.from(JSON.stringify(body), "utf8");
+      contentType = "application/json;charset=utf-8";
+    } else {
+      payload = Buffer.from(String(body), "utf8");
+      contentType = "text/plain;charset=utf-8";
+    }
+
+    res.writeHead(status, { "content-type": contentType, ...headers });
+    res.end(payload);
+  }
+}
+
+function defaultResponse(
+  endpoint: WolframStandInEndpoint,
+  input: string | undefined,
+): { status: number; body: any } {
+  switch (endpoint) {
+    case "query":
+      return {
+        status: 200,
+        body: {
+          queryresult: {
+            success: false,
+            error: false,
+            numpods: 0,
+            inputstring: input,
+          },
+        },
+      };
+    case "conversation":
+      return { status: 200, body: { error: NOT_UNDERSTOOD } };
+    default:
+      return { status: 501, body: NOT_UNDERSTOOD };
+  }
+}
@@ -0,0 +1,325 @@
+import { logger } from "@elizaos/core";
+import { promises as fs } from "fs";
+import path from "path";
+import { WolframConfig } from "./environment";
+import {
+  WolframTransport,
+  WolframTransportRequest,
+  WolframTransportResponse,
+  WolframFixtureExchange,
+  WolframFixtureFile,
+} from "./types";
+
+export const FIXTURE_VERSION = 1;
+
+// Params that must never end up in a fixture file or a fixture key
+const REDACTED_PARAMS = ["appid"];
+
+/**
+ * Error thrown by non-axios transports, shaped like an axios error so callers
+ * can keep inspecting `error.response.status`
+ */
+export class WolframTransportError extends Error {
+  response?: WolframTransportResponse;
+  code?: string;
+
+  constructor(
+    message: string,
+    response?: WolframTransportResponse,
+    code?: string,
+  ) {
+    super(message);
+    this.name = "WolframTransportError";
+    this.response = response;
+    this.code = code;
+  }
+}
+
+export interface HttpTransportOptions {
+  baseURL: string;
+  timeout: number;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Live transport backed by axios
+ */
+export class HttpTransport implements WolframTransport {
+  private client: Promise<any> | null = null;
+
+  constructor(private readonly options: HttpTransportOptions) {}
+
+  async get<T = any>(
+    url: string,
+    config: WolframTransportRequest = {},
+  ): Promise<WolframTransportResponse<T>> {
+    const client = await this.getClient();
+    const response = await client.get(url, config);
+    return {
+      status: response.status,
+      data: response.data,
+      headers: response.headers,
+    };
+  }
+
+  private getClient(): Promise<any> {
+    if (!this.client) {
+      // Dynamic import axios to avoid build issues
+      this.client = import("axios" as any).then((axios: any) =>
+        axios.default.create({
+          baseURL: this.options.baseURL,
+          timeout: this.options.timeout,
+          headers: this.options.headers,
+          // Repeat array params (assumption=a&assumption=b) as Wolfram expects
+          paramsSerializer: { indexes: null },
+        }),
+      );
+    }
+    return this.client;
+  }
+}
+
+/**
+ * Wraps another transport and writes every exchange (including HTTP errors)
+ * to a JSON fixture file that ReplayTransport can serve back offline
+ */
+export class RecordingTransport implements WolframTransport {
+  private exchanges: WolframFixtureExchange[] = [];
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly inner: WolframTransport,
+    private readonly fixturePath: string,
+  ) {}
+
+  async get<T = any>(
+    url: string,
+    config: WolframTransportRequest = {},
+  ): Promise<WolframTransportResponse<T>> {
+    try {
+      const response = await this.inner.get<T>(url, config);
+      this.record(url, config, response);
+      return response;
+    } catch (error: any) {
+      if (error?.response?.status) {
+        this.record(url, config, error.response);
+      }
+      throw error;
+    }
+  }
+
+  getExchanges(): WolframFixtureExchange[] {
+    return [...this.exchanges];
+  }
+
+  /**
+   * Waits for all pending fixture writes to land on disk
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrite;
+  }
+
+  private record(
+    url: string,
+    config: WolframTransportRequest,
+    response: WolframTransportResponse,
+  ): void {
+    this.exchanges.push({
+      request: {
+        method: "GET",
+        url,
+        params: sanitizeParams(config.params),
+      },
+      response: {
+        status: response.status,
+        ...encodeData(response.data),
+        headers: pickHeaders(response.headers),
+      },
+    });
+
+    const fixture: WolframFixtureFile = {
+      version: FIXTURE_VERSION,
+      recordedAt: new Date().toISOString(),
+      exchanges: this.exchanges,
+    };
+    const contents = JSON.stringify(fixture, null, 2);
+
+    // Serialize writes so a slow write never overwrites a newer one
+    this.pendingWrite = this.pendingWrite
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.fixturePath), { recursive: true });
+        await fs.writeFile(this.fixturePath, contents, "utf8");
+      })
+      .catch((error) => {
+        logger.error("Failed to write Wolfram fixture file:", error);
+      });
+  }
+}
+
+/**
+ * Serves recorded exchanges back without touching the network. Repeated
+ * requests for the same key are answered in recording order, with the last
+ * recorded exchange reused once the sequence is exhausted.
+ */
+export class ReplayTransport implements WolframTransport {
+  private exchanges: Map<string, WolframFixtureExchange[]>;
+  private served: Map<string, number>;
+
+  constructor(fixture: WolframFixtureFile) {
+    if (fixture.version !== FIXTURE_VERSION) {
+      throw new Error(
+        `Unsupported Wolfram fixture version ${fixture.version} (expected ${FIXTURE_VERSION})`,
+      );
+    }
+
+    this.exchanges = new Map();
+    this.served = new Map();
+
+    for (const exchange of fixture.exchanges) {
+      const key = fixtureKey(exchange.request.url, exchange.request.params);
+      const list = this.exchanges.get(key) || [];
+      list.push(exchange);
+      this.exchanges.set(key, list);
+    }
+  }
+
+  static async fromFile(fixturePath: string): Promise<ReplayTransport> {
+    const contents = await fs.readFile(fixturePath, "utf8");
+    return new ReplayTransport(JSON.parse(contents));
+  }
+
+  async get<T = any>(
+    url: string,
+    config: WolframTransportRequest = {},
+  ): Promise<WolframTransportResponse<T>> {
+    if (config.signal?.aborted) {
+      throw new WolframTransportError(
+        "Request aborted",
+        undefined,
+        "ERR_CANCELED",
+      );
+    }
+
+    const key = fixtureKey(url, config.params);
+    const list = this.exchanges.get(key);
+
+    if (!list || list.length === 0) {
+      throw new WolframTransportError(
+        `No recorded Wolfram fixture for ${key}`,
+        undefined,
+        "FIXTURE_NOT_FOUND",
+      );
+    }
+
+    const index = this.served.get(key) || 0;
+    this.served.set(key, index + 1);
+    const exchange = list[Math.min(index, list.length - 1)];
+
+    const response: WolframTransportResponse<T> = {
+      status: exchange.response.status,
+      data: decodeData(exchange.response),
+      headers: exchange.response.headers,
+    };
+
+    if (response.status >= 400) {
+      throw new WolframTransportError(
+        `Request failed with status code ${response.status}`,
+        response,
+      );
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Stable lookup key for a request: url plus sorted params, minus credentials
+ */
+export function fixtureKey(
+  url: string,
+  params: Record<string, any> | undefined,
+): string {
+  const clean = sanitizeParams(params);
+  const query = Object.keys(clean)
+    .sort()
+    .map((key) => `${key}=${encodeURIComponent(String(clean[key]))}`)
+    .join("&");
+  return query ? `GET ${url}?${query}` : `GET ${url}`;
+}
+
+export function sanitizeParams(
+  params: Record<string, any> | undefined,
+): Record<string, any> {
+  const clean: Record<string, any> = {};
+  for (const [key, value] of Object.entries(params || {})) {
+    if (value === undefined || value === null) continue;
+    if (REDACTED_PARAMS.includes(key)) continue;
+    clean[key] = value;
+  }
+  return clean;
+}
+
+export function encodeData(
+  data: any,
+): Pick<WolframFixtureExchange["response"], "data" | "encoding"> {
+  if (Buffer.isBuffer(data) || data instanceof ArrayBuffer) {
+    return {
+      data: Buffer.from(data as ArrayBuffer).toString("base64"),
+      encoding: "base64",
+    };
+  }
+  if (typeof data === "string") {
+    return { data, encoding: "text" };
+  }
+  return { data, encoding: "json" };
+}
+
+export function decodeData(response: WolframFixtureExchange["response"]): any {
+  if (response.encoding === "base64") {
+    return Buffer.from(response.data, "base64");
+  }
+  return response.data;
+}
+
+function pickHeaders(
+  headers: Record<string, any> | undefined,
+): Record<string, string> | undefined {
+  if (!headers) return undefined;
+  const picked: Record<string, string> = {};
+  for (const name of ["content-type", "retry-after"]) {
+    const value = headers[name];
+    if (value !== undefined) picked[name] = String(value);
+  }
+  return Object.keys(picked).length > 0 ? picked : undefined;
+}
+
+/**
+ * Builds the transport selected by WOLFRAM_TRANSPORT
+ */
+export async function createTransport(
+  config: WolframConfig,
+): Promise<WolframTransport> {
+  const live = (): WolframTransport =>
+    new HttpTransport({
+      baseURL: config.WOLFRAM_API_ENDPOINT || "https://api.wolframalpha.com/v2",
+      timeout: config.WOLFRAM_TIMEOUT || 10000,
+      headers: {
+        "User-Agent": "ElizaOS-Wolfram-Plugin/1.0",
+      },
+    });
+
+  switch (config.WOLFRAM_TRANSPORT) {
+    case "record":
+      logger.log(
+        `📼 Recording Wolfram exchanges to ${config.WOLFRAM_FIXTURE_PATH}`,
+      );
+      return new RecordingTransport(live(), config.WOLFRAM_FIXTURE_PATH!);
+    case "replay":
+      logger.log(
+        `📼 Replaying Wolfram exchanges from ${config.WOLFRAM_FIXTURE_PATH}`,
+      );
+      return ReplayTransport.fromFile(config.WOLFRAM_FIXTURE_PATH!);
+    default:
+      return live();
+  }
+}
@@ -0,0 +1,129 @@
+import { logger } from "@elizaos/core";
+import { WolframCacheTtlRule, WolframTtlContext } from "./types";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/**
+ * Built-in rules, most volatile first since the first matching rule wins.
+ * Results that match nothing fall back to the policy's default TTL.
+ */
+export const DEFAULT_TTL_RULES: WolframCacheTtlRule[] = [
+  {
+    name: "current-time",
+    input: "\\b(now|current time|currently|today|tonight|latest)\\b",
+    ttl: MINUTE,
+  },
+  { name: "time", scanner: ["Time", "Date"], ttl: MINUTE },
+  { name: "markets", scanner: ["FinancialData", "Money"], ttl: 5 * MINUTE },
+  { name: "weather", scanner: "Weather", ttl: 10 * MINUTE },
+  {
+    name: "weather",
+    podId: ["WeatherForecast", "InstantaneousWeather", "WeatherCharts"],
+    ttl: 10 * MINUTE,
+  },
+  {
+    name: "math",
+    method: ["solveMath", "getStepByStep"],
+    ttl: 30 * DAY,
+  },
+  {
+    name: "math",
+    scanner: [
+      "Solve",
+      "Derivative",
+      "Integral",
+      "Limit",
+      "Series",
+      "Simplification",
+      "Arithmetic",
+      "Algebra",
+      "Polynomial",
+      "Factor",
+      "NumberTheory",
+      "Rational",
+    ],
+    ttl: 30 * DAY,
+  },
+  {
+    name: "constants",
+    scanner: ["PhysicalConstants", "Unit", "MathematicalFunctionData"],
+    ttl: 30 * DAY,
+  },
+];
+
+function asList(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Assigns a TTL to each result from a rule table. Every criterion a rule
+ * sets must match; within a criterion any listed value may match.
+ */
+export class WolframTtlPolicy {
+  readonly rules: WolframCacheTtlRule[];
+
+  constructor(
+    customRules: WolframCacheTtlRule[] = [],
+    readonly defaultTtl: number = 3600000,
+  ) {
+    // Custom rules (e.g. from character settings) take precedence
+    this.rules = [...customRules, ...DEFAULT_TTL_RULES];
+  }
+
+  /**
+   * Returns the TTL in milliseconds; 0 means the result must not be cached
+   */
+  resolve(context: WolframTtlContext): number {
+    const rule = this.rules.find((candidate) =>
+      this.matches(candidate, context),
+    );
+    if (!rule) return this.defaultTtl;
+
+    const ttl = rule.ttl === "never" ? 0 : rule.ttl;
+    logger.debug(
+      `⏱️ TTL rule "${rule.name || "custom"}" -> ${ttl}ms for ${context.method}("${context.input}")`,
+    );
+    return ttl;
+  }
+
+  private matches(
+    rule: WolframCacheTtlRule,
+    context: WolframTtlContext,
+  ): boolean {
+    const methods = asList(rule.method);
+    if (methods && !methods.includes(context.method)) return false;
+
+    const scanners = asList(rule.scanner);
+    if (
+      scanners &&
+      !(context.pods || []).some((pod) => scanners.includes(pod.scanner))
+    ) {
+      return false;
+    }
+
+    const podIds = asList(rule.podId);
+    if (
+      podIds &&
+      !(context.pods || []).some((pod) =>
+        podIds.some((id) => pod.id === id || pod.id?.startsWith(`${id}:`)),
+      )
+    ) {
+      return false;
+    }
+
+    if (rule.input !== undefined) {
+      try {
+        if (!new RegExp(rule.input, "i").test(context.input)) return false;
+      } catch {
+        logger.warn(
+          `⚠️ Ignoring TTL rule with invalid input pattern: ${rule.input}`,
+        );
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
@@ -29,7 +29,8 @@ export interface ActionContext {
 // Original types below...
 export interface WolframAlphaQueryResult {
   success: boolean;
-  error?: string;
+  // `false`, or what went wrong, e.g. {code: "1", msg: "Invalid appid"}
+  error?: boolean | { code: string; msg: string };
   numpods?: number;
   pods?: WolframPod[];
   assumptions?: WolframAssumption[];
@@ -63,6 +64,8 @@ export interface WolframPod {
   states?: WolframState[];
   infos?: WolframInfo[];
   definitions?: WolframDefinition[];
+  // In async mode, URL of pod content Wolfram has not computed yet
+  async?: string;
 }
 
 export interface WolframSubpod {
@@ -120,6 +123,35 @@ export interface WolframAssumptionValue {
   word?: string;
 }
 
+/**
+ * One interpretation Wolfram considered, with the token that selects it
+ * through the `assumption` query parameter
+ */
+export interface WolframAssumptionOption {
+  type: string;
+  word?: string;
+  name: string;
+  desc: string;
+  input: string;
+  // Wolfram lists the interpretation it used first
+  current: boolean;
+}
+
+/**
+ * An interpretation a user picked, applied again whenever the same word
+ * and assumption type come up in a later query
+ */
+export interface WolframAssumptionPreference {
+  word: string;
+  type: string;
+  name: string;
+  desc: string;
+  input: string;
+  updatedAt: number;
+}
+
+export type WolframAssumptionScope = "user" | "room";
+
 export interface WolframWarning {
   text: string;
   spellcheck?: WolframSpellcheck;
@@ -155,6 +187,8 @@ export interface WolframReinterpret {
 export interface WolframAlternative {
   text: string;
   input: string;
+  /** The JSON API reports the alternative's text as `val` */
+  val?: string;
   level?: string;
   score?: number;
 }
@@ -169,6 +203,8 @@ export interface WolframDidYouMean {
   level: string;
   text?: string;
   input?: string;
+  /** The JSON API reports the suggested input as `val` */
+  val?: string;
 }
 
 export interface WolframGeneralization {
@@ -180,9 +216,34 @@ export interface WolframGeneralization {
 export interface WolframState {
   name: string;
   input: string;
+  // State lists (e.g. a "Step-by-step" menu) carry the current choice in
+  // `value` and the choices in `states`
+  value?: string;
   states?: WolframState[];
 }
 
+/**
+ * A pod state that can be passed back to Wolfram as `podstate`
+ */
+export interface WolframPodStateOption {
+  podId: string;
+  podTitle: string;
+  name: string;
+  input: string;
+  group?: string;
+}
+
+/**
+ * The most recent query in a room, kept so follow-ups like "more digits"
+ * can re-query it
+ */
+export interface WolframLastResult {
+  input: string;
+  options: Partial<WolframQueryOptions>;
+  result: WolframAlphaQueryResult;
+  timestamp: number;
+}
+
 export interface WolframInfo {
   text?: string;
   img?: WolframImage;
@@ -221,16 +282,121 @@ export interface WolframSimpleResult {
   error?: string;
 }
 
+// What Wolfram offers instead when it cannot interpret an input
+export interface WolframSuggestions {
+  /** Inputs from `didyoumeans` */
+  didYouMean: string[];
+  /** The interpretation Wolfram fell back to, from a `reinterpret` warning */
+  reinterpretedAs?: string;
+  /** Other interpretations listed in the `reinterpret` warning */
+  alternatives: string[];
+  /** Example inputs from `relatedexamples` */
+  relatedExamples: string[];
+}
+
 export interface WolframShortAnswerResult {
   answer: string;
   success: boolean;
   error?: string;
+  /** Set when Wolfram answered 501 "did not understand your input" */
+  notUnderstood?: boolean;
+  suggestions?: WolframSuggestions;
 }
 
 export interface WolframSpokenResult {
   spoken: string;
   success: boolean;
   error?: string;
+  notUnderstood?: boolean;
+  suggestions?: WolframSuggestions;
+}
+
+/**
+ * Where compute() and quickAnswer() look for an answer: the Short Answers
+ * (/result) API, the Short Answer (/short) API or a full query
+ */
+export type WolframAnswerSource = "result" | "short" | "query";
+
+export interface WolframComputeResult {
+  success: boolean;
+  answer?: string;
+  // The strategy step that produced the answer
+  source?: WolframAnswerSource;
+  notUnderstood?: boolean;
+  suggestions?: WolframSuggestions;
+}
+
+/**
+ * Service method a batch item runs: "short" is getShortAnswer(), "result"
+ * getResult(), "steps" getStepByStep() and so on
+ */
+export type WolframBatchMethod =
+  | "query"
+  | "short"
+  | "result"
+  | "spoken"
+  | "simple"
+  | "llm"
+  | "solve"
+  | "steps"
+  | "compute"
+  | "facts"
+  | "analyze";
+
+export interface WolframBatchItem {
+  input: string;
+  // Defaults to "query"
+  method?: WolframBatchMethod;
+  // Query parameters, for "query" items
+  options?: Partial<WolframQueryOptions>;
+  // Answer length, for "llm" items
+  maxChars?: number;
+}
+
+export interface WolframBatchOptions extends WolframCallContext {
+  // Items in flight at once (default: WOLFRAM_BATCH_CONCURRENCY)
+  concurrency?: number;
+}
+
+interface WolframBatchOutcome {
+  // Position of the item in the batch
+  index: number;
+  input: string;
+  method: WolframBatchMethod;
+}
+
+export type WolframBatchResult =
+  | (WolframBatchOutcome & { success: true; result: any })
+  | (WolframBatchOutcome & { success: false; error: WolframError });
+
+/**
+ * How query() handles pods Wolfram defers in async mode
+ */
+export interface WolframAsyncPodOptions {
+  // Milliseconds query() waits for deferred pods before returning
+  waitMs?: number;
+  // Receives deferred pods that arrive after query() has returned
+  onPod?: (pod: WolframPod) => void | Promise<void>;
+}
+
+/**
+ * Per-call options of every method that talks to Wolfram
+ */
+export interface WolframCallContext {
+  // Cancels the call, including its retries and rate limit waits
+  signal?: AbortSignal;
+  // Action that made the call, recorded in the audit log
+  action?: string;
+}
+
+/**
+ * Per-call behavior of query() that is not sent to Wolfram
+ */
+export interface WolframQueryContext
+  extends WolframAsyncPodOptions,
+    WolframCallContext {
+  // User or room whose remembered assumptions apply (see preferenceScope())
+  preferenceScope?: string;
 }
 
 export interface WolframQueryOptions {
@@ -238,14 +404,14 @@ export interface WolframQueryOptions {
   format?: string;
   output?: string;
   appid?: string;
-  assumption?: string;
-  podstate?: string;
+  assumption?: string | string[];
+  podstate?: string | string[];
   includepodid?: string;
   excludepodid?: string;
   podtitle?: string;
   podindex?: string;
   scanner?: string;
-  async?: boolean;
+  async?: boolean | number;
   ip?: string;
   location?: string;
   gps?: string;
@@ -271,12 +437,45 @@ export interface WolframLLMOptions {
   maxchars?: number;
 }
 
+export interface WolframConversationOptions {
+  i: string;
+  appid: string;
+  conversationid?: string;
+  s?: string;
+}
+
+/**
+ * What a follow-up needs from the previous conversation response: the ID,
+ * the host that owns the conversation and its `s` token
+ */
+export interface WolframConversationState {
+  conversationID: string;
+  host: string;
+  s?: string;
+}
+
+export interface WolframConversationSession extends WolframConversationState {
+  updatedAt: number;
+}
+
+// Whether a Wolfram conversation belongs to one user in a room or is shared
+// by everyone in the room
+export type WolframConversationScope = "user" | "room";
+
+export interface WolframConversationLimits {
+  ttl?: number; // idle time in milliseconds before a session is dropped
+  maxSessions?: number;
+}
+
 export enum WolframAPIEndpoint {
   QUERY = "/query",
   SIMPLE = "/simple",
   SHORT = "/short",
   SPOKEN = "/spoken",
   RESULT = "/result",
+  // Async pods are fetched from absolute URLs in the query result; this
+  // names them for circuit breaking and errors
+  ASYNC_POD = "/asyncPod.jsp",
   // Note: LLM and CONVERSATION are absolute endpoints on a different host
   LLM = "https://www.wolframalpha.com/api/v1/llm-api",
   CONVERSATION = "https://www.wolframalpha.com/api/v1/conversation.jsp",
@@ -287,6 +486,68 @@ export interface WolframCacheEntry {
   result: any;
   timestamp: number;
   ttl: number;
+  /** Approximate size of `result` in bytes, used for the cache byte budget */
+  size?: number;
+}
+
+export interface WolframCacheTtlRule {
+  /** Label used in logs */
+  name?: string;
+  /** Service method that produced the result, e.g. "solveMath" */
+  method?: string | string[];
+  /** Matches when any pod was produced by one of these scanners */
+  scanner?: string | string[];
+  /** Matches pod ids exactly or by prefix ("WeatherForecast" matches "WeatherForecast:WeatherData") */
+  podId?: string | string[];
+  /** Case-insensitive regular expression tested against the input */
+  input?: string;
+  /** Milliseconds to keep the result; 0 or "never" disables caching */
+  ttl: number | "never";
+}
+
+// What the TTL policy sees when a result is about to be cached
+export interface WolframTtlContext {
+  method: string;
+  input: string;
+  pods?: WolframPod[];
+}
+
+// How inputs are canonicalized for cache keys; "off" keeps raw inputs
+export type WolframKeyNormalization = "full" | "preserve-case" | "off";
+
+export type WolframCacheBackend = "memory" | "runtime" | "file";
+
+export interface WolframCacheLimits {
+  maxEntries?: number;
+  maxBytes?: number;
+}
+
+// The slice of the ElizaOS runtime cache API that quota, preference,
+// conversation and cache state is persisted through
+export interface WolframStateStore {
+  getCache<T>(key: string): Promise<T | undefined>;
+  setCache<T>(key: string, value: T): Promise<boolean>;
+  deleteCache(key: string): Promise<boolean>;
+}
+
+// Reads are synchronous against an in-process LRU copy; persistent backends
+// write through to their storage and restore entries in load()
+export interface WolframCacheStore {
+  readonly backend: WolframCacheBackend;
+  readonly size: number;
+  readonly bytes: number;
+  readonly maxEntries: number;
+  readonly maxBytes: number;
+  readonly evictions: number;
+  load(): Promise<void>;
+  flush(): Promise<void>;
+  get(key: string): WolframCacheEntry | undefined;
+  has(key: string): boolean;
+  set(key: string, entry: WolframCacheEntry): void;
+  delete(key: string): boolean;
+  clear(): void;
+  keys(): IterableIterator<string>;
+  entries(): IterableIterator<[string, WolframCacheEntry]>;
 }
 
 export interface WolframAnalysisResult {
@@ -295,9 +556,145 @@ export interface WolframAnalysisResult {
   error?: string;
 }
 
+export interface WolframCoalescingKeyStats {
+  /** Calls that missed the cache for this key */
+  requests: number;
+  /** Calls that joined an already pending request instead of hitting the API */
+  coalesced: number;
+  lastRequestedAt: number;
+}
+
+export interface WolframCoalescingStats {
+  inFlight: number;
+  coalesced: number;
+  keys: Record<string, WolframCoalescingKeyStats>;
+}
+
+export interface WolframQuotaLimits {
+  /** Sustained request rate per App ID; 0 disables the token bucket */
+  requestsPerSecond?: number;
+  /** Requests that may be sent back to back before the rate applies */
+  burst?: number;
+  /** Calls allowed per calendar month (UTC) per App ID; 0 disables the quota */
+  monthlyLimit?: number;
+  /** Fraction of the monthly limit at which a warning is logged */
+  softLimit?: number;
+  /** Fraction of the monthly limit at which requests are refused */
+  hardLimit?: number;
+  /** Monthly limits for specific App IDs, overriding monthlyLimit */
+  appIdLimits?: Record<string, number>;
+}
+
+export interface WolframQuotaUsage {
+  /** Truncated SHA-256 of the App ID, so stats never expose the credential */
+  appIdHash: string;
+  /** Calendar month the counter covers, as YYYY-MM (UTC) */
+  month: string;
+  used: number;
+  limit: number;
+  /** Calls left before the hard threshold; null when no limit is set */
+  remaining: number | null;
+  softLimitReached: boolean;
+  resetsAt: string;
+}
+
+/**
+ * How the service picks among several App IDs: take turns, or prefer the
+ * one with the most monthly quota left
+ */
+export type WolframAppIdStrategy = "round-robin" | "quota";
+
+export interface WolframAppIdStats {
+  /** Truncated SHA-256 of the App ID, so stats never expose the credential */
+  appIdHash: string;
+  requests: number;
+  failures: number;
+  /** Error code of the last failure that took the App ID out of rotation */
+  lastError?: string;
+  /** Until when the App ID is skipped while others are available */
+  coolingDownUntil?: number;
+  quota?: WolframQuotaUsage;
+}
+
+export type WolframCircuitState = "closed" | "open" | "half-open";
+
+export interface WolframCircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold?: number;
+  /** Milliseconds an open circuit waits before letting one probe through */
+  resetTimeoutMs?: number;
+}
+
+export interface WolframCircuitBreakerStats {
+  state: WolframCircuitState;
+  consecutiveFailures: number;
+  /** Requests refused without calling the endpoint */
+  rejected: number;
+  openedAt?: number;
+  /** When an open circuit will allow the next probe */
+  retryAt?: number;
+}
+
+export interface WolframRetryPolicyOptions {
+  /** Total attempts per request, the first one included */
+  maxAttempts?: number;
+  /** Backoff ceiling for the first retry; doubles with every attempt */
+  baseDelayMs?: number;
+  /** Upper bound for any delay; a longer Retry-After gives up instead */
+  maxDelayMs?: number;
+  retryStatuses?: number[];
+  /** Network error codes (error.code) worth retrying */
+  retryErrorCodes?: string[];
+}
+
+export interface WolframRetryStats {
+  /** Requests sent, retries included */
+  attempts: number;
+  retries: number;
+  /** Requests that failed after using up their attempts */
+  exhausted: number;
+  /** Retries by HTTP status or network error code */
+  byReason: Record<string, number>;
+}
+
+export interface WolframLatencyHistogram {
+  /** Bucket upper bounds in milliseconds, ascending */
+  buckets: number[];
+  /** Requests per bucket, cumulative: `counts[i]` took at most `buckets[i]` */
+  counts: number[];
+  count: number;
+  /** Total milliseconds across all requests */
+  sum: number;
+}
+
+export interface WolframEndpointMetrics {
+  /** HTTP requests sent, retries included */
+  requests: number;
+  /** Failed and refused requests by error code */
+  errors: Partial<Record<WolframErrorCode, number>>;
+  latency: WolframLatencyHistogram;
+}
+
 export interface WolframServiceStats {
   cacheSize: number;
+  cacheBytes: number;
+  cacheBackend: WolframCacheBackend;
+  cacheHits: number;
+  cacheMisses: number;
+  /** cacheHits / (cacheHits + cacheMisses), 0 before the first lookup */
+  cacheHitRatio: number;
+  cacheEvictions: number;
   activeConversations: number;
+  coalescing: WolframCoalescingStats;
+  quota: WolframQuotaUsage[];
+  appIds: WolframAppIdStats[];
+  /** Keyed by endpoint path or URL */
+  circuitBreakers: Record<string, WolframCircuitBreakerStats>;
+  retries: WolframRetryStats;
+  /** Keyed by endpoint name: query, short, spoken, llm, ... */
+  endpoints: Record<string, WolframEndpointMetrics>;
+  /** Failed and refused requests by error code, all endpoints together */
+  errors: Partial<Record<WolframErrorCode, number>>;
   config: {
     units?: "metric" | "imperial";
     location?: string;
@@ -307,12 +704,415 @@ export interface WolframServiceStats {
 
 export interface WolframServiceOptions {
   appId: string;
+  // Further App IDs to rotate between, as with WOLFRAM_APP_IDS
+  appIds?: string[];
   cloudApiKey?: string;
   endpoint?: string;
+  llmEndpoint?: string;
+  conversationEndpoint?: string;
   timeout?: number;
   cache?: boolean;
   cacheTTL?: number;
+  cacheMaxEntries?: number;
+  cacheMaxBytes?: number;
   units?: "metric" | "imperial";
   location?: string;
   maxResults?: number;
+  batchConcurrency?: number;
+  // Latency histogram bucket bounds in ms, as with WOLFRAM_METRICS_BUCKETS
+  metricsBuckets?: number[];
+}
+
+export interface WolframClientDependencies {
+  // Defaults to the transport selected by WOLFRAM_TRANSPORT
+  transport?: WolframTransport;
+  // Defaults to a MemoryStateStore; WolframService passes its runtime
+  store?: WolframStateStore;
+}
+
+export interface WolframTransportRequest {
+  params?: Record<string, any>;
+  headers?: Record<string, string>;
+  responseType?: "json" | "text" | "arraybuffer";
+  signal?: AbortSignal;
+}
+
+export interface WolframTransportResponse<T = any> {
+  status: number;
+  data: T;
+  headers?: Record<string, string>;
+}
+
+// Minimal HTTP surface the service needs; rejections carry `response.status`
+// the same way axios errors do so retry logic works for every transport
+export interface WolframTransport {
+  get<T = any>(
+    url: string,
+    config?: WolframTransportRequest,
+  ): Promise<WolframTransportResponse<T>>;
+}
+
+export type WolframTransportMode = "http" | "record" | "replay";
+
+export interface WolframFixtureExchange {
+  request: {
+    method: "GET";
+    url: string;
+    params: Record<string, any>;
+  };
+  response: {
+    status: number;
+    data: any;
+    encoding: "json" | "text" | "base64";
+    headers?: Record<string, string>;
+  };
+}
+
+export interface WolframFixtureFile {
+  version: number;
+  recordedAt?: string;
+  exchanges: WolframFixtureExchange[];
+}
+
+/**
+ * The service call a request was made for, as the audit log records it
+ */
+export interface WolframAuditContext {
+  action?: string;
+  // Service method, such as "solveMath"
+  method?: string;
+  // What the method was given; for actions, the text the LLM extracted
+  input?: string;
+}
+
+/**
+ * One line of the audit log: a single HTTP exchange with Wolfram
+ */
+export interface WolframAuditEntry extends WolframAuditContext {
+  timestamp: string;
+  // Random ID per service run, to pick one run out of a shared log
+  sessionId: string;
+  request: {
+    url: string;
+    // `appid` is replaced by AUDIT_REDACTED
+    params: Record<string, any>;
+    responseType?: WolframTransportRequest["responseType"];
+  };
+  // Missing when no response arrived (network error, timeout, abort)
+  status?: number;
+  latencyMs: number;
+  response?: Pick<WolframFixtureExchange["response"], "data" | "encoding">;
+  error?: string;
+}
+
+export interface WolframAuditReplayOptions {
+  // Sent in place of the redacted `appid`
+  appId?: string;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export interface WolframAuditReplayResult {
+  entry: WolframAuditEntry;
+  status?: number;
+  latencyMs: number;
+  response?: WolframTransportResponse;
+  error?: string;
+  // Whether the status or response differs from the logged one
+  changed: boolean;
+}
+
+export type WolframStandInEndpoint =
+  | "query"
+  | "simple"
+  | "short"
+  | "spoken"
+  | "result"
+  | "llm"
+  | "conversation";
+
+export interface WolframStandInRule {
+  endpoint: WolframStandInEndpoint;
+  /** Exact `input` to match; omit to match any input */
+  input?: string;
+  status?: number;
+  body?: any;
+  encoding?: "json" | "text" | "base64";
+  headers?: Record<string, string>;
+  delayMs?: number;
+  /** Serve this rule this many times, then fall through to later rules */
+  times?: number;
+}
+
+export interface WolframStandInScenario {
+  /** When set, requests with any other appid are rejected like Wolfram does */
+  appId?: string;
+  rules: WolframStandInRule[];
+}
+
+export interface WolframStandInRequest {
+  endpoint: WolframStandInEndpoint | "unknown";
+  path: string;
+  params: Record<string, string>;
+  status: number;
+}
+
+export type WolframErrorCode =
+  | "INVALID_APP_ID"
+  | "QUOTA_EXCEEDED"
+  | "INPUT_NOT_UNDERSTOOD"
+  | "TIMEOUT"
+  | "NETWORK"
+  | "MALFORMED_RESPONSE"
+  | "SERVICE_UNAVAILABLE"
+  | "API_ERROR"
+  | "ABORTED";
+
+export interface WolframErrorDetails {
+  /** HTTP status, when the endpoint answered */
+  status?: number;
+  /** Endpoint path or URL the failed request went to */
+  endpoint?: string;
+  /** The underlying transport error */
+  cause?: unknown;
+}
+
+/**
+ * Base class for every failure WolframService reports. `code` is stable for
+ * programmatic handling and `userMessage` is safe to show in chat.
+ */
+export class WolframError extends Error {
+  readonly code: WolframErrorCode;
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly cause?: unknown;
+
+  constructor(
+    code: WolframErrorCode,
+    message: string,
+    details: WolframErrorDetails = {},
+  ) {
+    super(message);
+    this.name = "WolframError";
+    this.code = code;
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.cause = details.cause;
+  }
+
+  get userMessage(): string {
+    return "Something went wrong while asking Wolfram Alpha. Please try again.";
+  }
+}
+
+export class WolframInvalidAppIdError extends WolframError {
+  constructor(message: string, details: WolframErrorDetails = {}) {
+    super("INVALID_APP_ID", message, details);
+    this.name = "WolframInvalidAppIdError";
+  }
+
+  get userMessage(): string {
+    return "Wolfram Alpha is not set up correctly (the App ID was rejected), so I can't look that up.";
+  }
+}
+
+/**
+ * Thrown instead of calling the API once an App ID has used up its monthly
+ * budget
+ */
+export class WolframQuotaExceededError extends WolframError {
+  readonly appIdHash: string;
+  readonly used: number;
+  readonly limit: number;
+  readonly resetsAt: Date;
+
+  constructor(usage: WolframQuotaUsage) {
+    super(
+      "QUOTA_EXCEEDED",
+      `Wolfram Alpha monthly quota exhausted (${usage.used}/${usage.limit} calls); resets ${usage.resetsAt.slice(0, 10)}`,
+    );
+    this.name = "WolframQuotaExceededError";
+    this.appIdHash = usage.appIdHash;
+    this.used = usage.used;
+    this.limit = usage.limit;
+    this.resetsAt = new Date(usage.resetsAt);
+  }
+
+  get userMessage(): string {
+    return `I've reached my Wolfram Alpha usage limit for this month, so I can't look that up right now. The limit resets on ${this.resetsAt.toISOString().slice(0, 10)}.`;
+  }
+}
+
+/**
+ * HTTP 501 from the Simple, Short Answer, Spoken and Result APIs
+ */
+export class WolframInputNotUnderstoodError extends WolframError {
+  readonly input: string;
+
+  constructor(input: string, details: WolframErrorDetails = {}) {
+    super(
+      "INPUT_NOT_UNDERSTOOD",
+      `Wolfram|Alpha did not understand the input: "${input}"`,
+      { status: 501, ...details },
+    );
+    this.name = "WolframInputNotUnderstoodError";
+    this.input = input;
+  }
+
+  get userMessage(): string {
+    return `Wolfram Alpha couldn't interpret "${this.input}". Try rephrasing it or making it more specific.`;
+  }
+}
+
+export class WolframTimeoutError extends WolframError {
+  constructor(message: string, details: WolframErrorDetails = {}) {
+    super("TIMEOUT", message, details);
+    this.name = "WolframTimeoutError";
+  }
+
+  get userMessage(): string {
+    return "Wolfram Alpha took too long to answer. Please try again, or ask something simpler.";
+  }
+}
+
+export class WolframNetworkError extends WolframError {
+  constructor(message: string, details: WolframErrorDetails = {}) {
+    super("NETWORK", message, details);
+    this.name = "WolframNetworkError";
+  }
+
+  get userMessage(): string {
+    return "I couldn't reach Wolfram Alpha. Please try again in a moment.";
+  }
+}
+
+export class WolframMalformedResponseError extends WolframError {
+  constructor(message: string, details: WolframErrorDetails = {}) {
+    super("MALFORMED_RESPONSE", message, details);
+    this.name = "WolframMalformedResponseError";
+  }
+
+  get userMessage(): string {
+    return "Wolfram Alpha sent back a response I couldn't read. Please try again.";
+  }
+}
+
+/**
+ * Thrown instead of calling an endpoint whose circuit is open
+ */
+export class WolframCircuitOpenError extends WolframError {
+  readonly retryAt: Date;
+
+  constructor(endpoint: string, retryAt: number) {
+    super(
+      "SERVICE_UNAVAILABLE",
+      `Wolfram endpoint ${endpoint} is unavailable; circuit open until ${new Date(retryAt).toISOString()}`,
+      { endpoint },
+    );
+    this.name = "WolframCircuitOpenError";
+    this.retryAt = new Date(retryAt);
+  }
+
+  get userMessage(): string {
+    return "Wolfram Alpha is temporarily unavailable. Please try again in a little while.";
+  }
+}
+
+/**
+ * Any other HTTP error status, or an error reported inside a 200 response
+ */
+export class WolframApiError extends WolframError {
+  constructor(message: string, details: WolframErrorDetails = {}) {
+    super("API_ERROR", message, details);
+    this.name = "WolframApiError";
+  }
+}
+
+/**
+ * The caller's AbortSignal fired before the request finished
+ */
+export class WolframAbortedError extends WolframError {
+  constructor(message: string, details: WolframErrorDetails = {}) {
+    super("ABORTED", message, details);
+    this.name = "WolframAbortedError";
+  }
+
+  get userMessage(): string {
+    return "The Wolfram Alpha request was cancelled.";
+  }
+}
+
+/**
+ * Classifies a transport failure into the WolframError hierarchy;
+ * WolframErrors pass through unchanged
+ */
+export function toWolframError(
+  error: unknown,
+  endpoint: string,
+  input?: string,
+): WolframError {
+  if (error instanceof WolframError) return error;
+
+  const err = error as any;
+  const status: number | undefined = err?.response?.status;
+  const reason = err?.message || String(error);
+  const details: WolframErrorDetails = { status, endpoint, cause: error };
+
+  // axios reports an aborted request as ERR_CANCELED, fetch as AbortError
+  if (err?.code === "ERR_CANCELED" || err?.name === "AbortError") {
+    return new WolframAbortedError(
+      `Wolfram request to ${endpoint} was aborted`,
+      details,
+    );
+  }
+
+  if (status === 401 || status === 403) {
+    return new WolframInvalidAppIdError(
+      `Wolfram rejected the App ID (HTTP ${status})`,
+      details,
+    );
+  }
+  if (status === 501 && input !== undefined) {
+    return new WolframInputNotUnderstoodError(input, details);
+  }
+  if (status !== undefined) {
+    return new WolframApiError(
+      `Wolfram request to ${endpoint} failed with HTTP ${status}`,
+      details,
+    );
+  }
+  if (
+    err?.code === "ECONNABORTED" ||
+    err?.code === "ETIMEDOUT" ||
+    /timeout/i.test(reason)
+  ) {
+    return new WolframTimeoutError(
+      `Wolfram request to ${endpoint} timed out: ${reason}`,
+      details,
+    );
+  }
+  return new WolframNetworkError(
+    `Wolfram request to ${endpoint} failed: ${reason}`,
+    details,
+  );
+}
+
+/**
+ * What an action reports when it fails: a WolframError's user message and
+ * code, or `fallback` plus the error's message for anything else
+ */
+export function describeActionError(
+  error: unknown,
+  fallback: string,
+): { message: string; error: string | Error } {
+  if (error instanceof WolframError) {
+    return { message: error.userMessage, error: error.code };
+  }
+  if (error instanceof Error) {
+    return { message: `${fallback}: ${error.message}`, error };
+  }
+  return {
+    message: `${fallback}: ${String(error)}`,
+    error: new Error(String(error)),
+  };
 }